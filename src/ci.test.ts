@@ -0,0 +1,249 @@
+/**
+ * Tests for ci
+ */
+
+import { expect } from "@std/expect";
+import { ci, type CiResult, formatCiSummary, formatJUnit } from "./ci.ts";
+import { silentLogger } from "./logger.ts";
+import { git, withTempRepo } from "./test-utils.ts";
+
+/**
+ * Commit a file with the given message
+ */
+async function commitFile(
+  root: string,
+  file: string,
+  message: string,
+): Promise<void> {
+  await Deno.writeTextFile(`${root}/${file}`, `${file}\n`);
+  await git(["add", file], root);
+  await git(["commit", "-q", "--no-verify", "-m", message], root);
+}
+
+Deno.test("ci - runs every hook once per commit", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      [
+        "hooks:",
+        "  pre-commit:",
+        "    - run: echo",
+        "      files: '*.ts'",
+        "      pass_filenames: true",
+        "  commit-msg:",
+        "    - run: echo",
+        "      files: '*.ts'",
+        "    - grep -q '^feat' {commit_msg_file}",
+        "",
+      ].join("\n"),
+    );
+    await commitFile(root, "base.ts", "chore: base");
+    await git(["tag", "base"], root);
+    await commitFile(root, "a.ts", "feat: add a");
+    await commitFile(root, "b.md", "docs: add b");
+
+    const result = await ci({ range: "base..HEAD", logger: silentLogger });
+
+    expect(result.commits.map(({ subject }) => subject)).toEqual([
+      "feat: add a",
+      "docs: add b",
+    ]);
+    expect(result.runs.map(({ hook, commit }) => [hook, commit?.subject]))
+      .toEqual([
+        ["pre-commit", "feat: add a"],
+        ["pre-commit", "docs: add b"],
+        ["commit-msg", "feat: add a"],
+        ["commit-msg", "docs: add b"],
+      ]);
+    const [preCommitA, preCommitB, first, second] = result.runs;
+    // Only the files each commit changed, not base.ts
+    expect(preCommitA.result.commands[0].stdout).toBe("a.ts\n");
+    expect(preCommitB.result.skipped).toEqual([
+      { command: "echo", reason: "no-matching-files" },
+    ]);
+    expect(first.result.commands.map(({ success }) => success)).toEqual([
+      true,
+      true,
+    ]);
+    // The second commit changed no TypeScript file and is not a feature
+    expect(second.result.skipped).toEqual([
+      { command: "echo", reason: "no-matching-files" },
+    ]);
+    expect(second.result.success).toBe(false);
+    expect(result.success).toBe(false);
+  });
+});
+
+Deno.test("ci - rejects requested hooks that are not configured", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - 'true'\n",
+    );
+    await commitFile(root, "a.ts", "feat: add a");
+
+    await expect(
+      ci({
+        hooks: ["pre-commit", "pre-push"],
+        range: "HEAD..HEAD",
+        logger: silentLogger,
+      }),
+    ).rejects.toThrow("No commands configured for hook: pre-push");
+    await expect(
+      ci({ hooks: ["toString"], range: "HEAD..HEAD", logger: silentLogger }),
+    ).rejects.toThrow("No commands configured for hook: toString");
+  });
+});
+
+Deno.test("ci - checks only the commits of the branch in either range form", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  commit-msg:\n    - 'true'\n",
+    );
+    await commitFile(root, "base.ts", "chore: base");
+    await git(["branch", "main"], root);
+    await commitFile(root, "a.ts", "feat: add a");
+    await git(["checkout", "-q", "main"], root);
+    await commitFile(root, "main.ts", "chore: only on main");
+    await git(["checkout", "-q", "-"], root);
+
+    for (const range of ["main..HEAD", "main...HEAD"]) {
+      const result = await ci({ range, logger: silentLogger });
+      expect(result.commits.map(({ subject }) => subject)).toEqual([
+        "feat: add a",
+      ]);
+    }
+    await expect(ci({ range: "main", logger: silentLogger })).rejects.toThrow(
+      'Invalid commit range "main", expected BASE..HEAD',
+    );
+    // The default range needs origin/HEAD, which this repository lacks
+    await expect(ci({ logger: silentLogger })).rejects.toThrow(
+      "Pass --range=BASE..HEAD",
+    );
+  });
+});
+
+Deno.test("ci - warns about hook arguments it cannot supply", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      [
+        "hooks:",
+        "  pre-push:",
+        "    - echo {remote_name}",
+        "    - 'true'",
+        "  commit-msg:",
+        "    - cat {commit_msg_file}",
+        "",
+      ].join("\n"),
+    );
+    await commitFile(root, "base.ts", "chore: base");
+    await commitFile(root, "a.ts", "feat: add a");
+    const warnings: string[] = [];
+
+    const result = await ci({
+      range: "HEAD~1..HEAD",
+      logger: { info: () => {}, warn: (message) => warnings.push(message) },
+    });
+
+    expect(warnings).toEqual([
+      '⚠ pre-push: "echo {remote_name}" uses {remote_name}, which ci cannot supply; it expands to an empty string',
+    ]);
+    expect(result.success).toBe(true);
+  });
+});
+
+/**
+ * A result with a passing, a failing and a skipped command
+ */
+const RESULT: CiResult = {
+  range: "origin/main..HEAD",
+  commits: [{
+    sha: "0123456789abcdef",
+    subject: "fix: a | b",
+    message: "fix: a | b\n",
+  }],
+  runs: [
+    {
+      hook: "pre-commit",
+      result: {
+        hook: "pre-commit",
+        success: true,
+        commands: [{
+          command: "deno task fmt",
+          code: 0,
+          success: true,
+          timedOut: false,
+          durationMs: 1200,
+          stdout: "",
+          stderr: "",
+        }],
+        skipped: [],
+      },
+    },
+    {
+      hook: "commit-msg",
+      commit: {
+        sha: "0123456789abcdef",
+        subject: "fix: a | b",
+        message: "fix: a | b\n",
+      },
+      result: {
+        hook: "commit-msg",
+        success: false,
+        commands: [{
+          command: "check <msg> && done",
+          code: 2,
+          success: false,
+          timedOut: false,
+          durationMs: 50,
+          stdout: '\x1b[31mbad\x1b[0m "type"\n',
+          stderr: "",
+        }],
+        skipped: [{ command: "echo later", reason: "earlier-failure" }],
+      },
+    },
+  ],
+  success: false,
+};
+
+Deno.test("formatJUnit - one suite per run and one case per command", () => {
+  expect(formatJUnit(RESULT)).toBe(
+    [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="deno-hooks" tests="3" failures="1" skipped="1">`,
+      `  <testsuite name="pre-commit" tests="1" failures="0" skipped="0" time="1.200">`,
+      `    <testcase classname="pre-commit" name="deno task fmt" time="1.200"/>`,
+      `  </testsuite>`,
+      `  <testsuite name="commit-msg @ 0123456" tests="2" failures="1" skipped="1" time="0.050">`,
+      `    <testcase classname="commit-msg @ 0123456" name="check &lt;msg&gt; &amp;&amp; done" time="0.050">`,
+      `      <failure message="exit code 2">bad &quot;type&quot;\n</failure>`,
+      `    </testcase>`,
+      `    <testcase classname="commit-msg @ 0123456" name="echo later" time="0">`,
+      `      <skipped message="skipped (earlier failure)"/>`,
+      `    </testcase>`,
+      `  </testsuite>`,
+      `</testsuites>`,
+      ``,
+    ].join("\n"),
+  );
+});
+
+Deno.test("formatCiSummary - tables every command and details failures", () => {
+  const summary = formatCiSummary(RESULT);
+  expect(summary).toContain("### ❌ deno-hooks: `origin/main..HEAD`");
+  expect(summary).toContain("1 passed, 1 failed, 1 skipped across 1 commit(s)");
+  expect(summary).toContain(
+    "| pre-commit |  | `deno task fmt` | ✅ passed | 1.2s |",
+  );
+  expect(summary).toContain(
+    "| commit-msg | `0123456` fix: a \\| b | `check <msg> && done` | ❌ exit code 2 | 0.1s |",
+  );
+  expect(summary).toContain(
+    "| commit-msg | `0123456` fix: a \\| b | `echo later` | ⏭️ skipped (earlier failure) | |",
+  );
+  expect(summary).toContain(
+    "<details><summary>❌ commit-msg @ 0123456: check &lt;msg&gt; &amp;&amp; done</summary>",
+  );
+});
@@ -0,0 +1,475 @@
+/**
+ * Replay hooks in CI over a range of commits
+ *
+ * Nothing is installed: the configured commands run directly, like
+ * {@linkcode runHook} does. Every hook runs once per commit, with the files
+ * that commit changed, so a failure points at the commit that caused it;
+ * hooks that receive a commit message file, such as `commit-msg`, also get
+ * that commit's message. The results can be written as JUnit XML, which most
+ * CI systems display per test, and as a Markdown summary for pull requests
+ * or GitHub's job summary.
+ *
+ * @example
+ * ```ts
+ * import { ci, formatJUnit } from "@theswanfactory/deno-hooks";
+ *
+ * const result = await ci({ range: "origin/main..HEAD" });
+ * await Deno.writeTextFile("hooks.xml", formatJUnit(result));
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type Config,
+  getHookConfig,
+  loadConfig,
+  normalizeCommand,
+} from "./config.ts";
+import { getCommitFiles, getRangeFiles } from "./files.ts";
+import {
+  type CommitInfo,
+  getGitRoot,
+  listCommits,
+  parseCommitRange,
+  revisionExists,
+} from "./git.ts";
+import { findPlaceholders, GIT_HOOKS } from "./hooks.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import { OUTPUT_LIMIT } from "./report.ts";
+import { runHook, type RunHookResult } from "./run.ts";
+
+/**
+ * Hooks run by {@linkcode ci} when none are requested, if configured
+ */
+export const CI_DEFAULT_HOOKS = ["pre-commit", "commit-msg", "pre-push"];
+
+/**
+ * Range checked by {@linkcode ci} when none is given: the commits not yet on
+ * the remote's default branch
+ *
+ * CI checkouts often lack `origin/HEAD`; {@linkcode ci} then asks for a
+ * range instead of guessing one.
+ */
+export const CI_DEFAULT_RANGE = "origin/HEAD..HEAD";
+
+/**
+ * Options for {@linkcode ci}
+ */
+export interface CiOptions {
+  /**
+   * Hooks to run, in order (default: those of
+   * {@linkcode CI_DEFAULT_HOOKS} that are configured)
+   */
+  hooks?: string[];
+  /** Commits to check, as `BASE..HEAD` (default: {@linkcode CI_DEFAULT_RANGE}) */
+  range?: string;
+  /** Ids of commands to skip, as with `DENO_HOOKS_SKIP` */
+  skip?: string[];
+  /** Where progress messages go (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * One run of a hook's commands
+ */
+export interface CiRun {
+  /** Git hook name */
+  hook: string;
+  /** The commit that was checked */
+  commit?: CommitInfo;
+  /** Outcome of the commands */
+  result: RunHookResult;
+}
+
+/**
+ * Outcome of {@linkcode ci}
+ */
+export interface CiResult {
+  /** The range that was checked */
+  range: string;
+  /** Commits in the range, oldest first */
+  commits: CommitInfo[];
+  /** Every hook run, per hook in the requested order, then oldest first */
+  runs: CiRun[];
+  /** Whether every command of every run succeeded */
+  success: boolean;
+}
+
+/**
+ * Run the configured commands of hooks over a range of commits in the
+ * current repository
+ *
+ * Every hook runs once per commit, oldest first, on the checked-out tree.
+ * The files the commit changed, minus those removed later in the range, are
+ * the candidates for `files` filters. Hooks whose first argument is a commit
+ * message file get the commit's message in a temporary file; other hook
+ * arguments are not available in CI, so placeholders that stand for them
+ * expand to empty strings and are warned about. Nothing stops at a failed
+ * run, so the report covers everything.
+ *
+ * @param options - Hooks, range and skip list
+ * @returns Every run and whether all of them passed
+ * @throws {Error} If the configuration is invalid, a requested hook is not
+ *   configured, the range is malformed or cannot be resolved, or no range is
+ *   given and the repository has no `origin/HEAD`
+ */
+export async function ci(options: CiOptions = {}): Promise<CiResult> {
+  const { logger = consoleLogger } = options;
+  const log = (message: string) => logger.info(message);
+  const root = await getGitRoot();
+  const range = options.range ?? await defaultRange(root);
+  const revisions = parseCommitRange(range);
+  const config = await loadConfig(root, { logger });
+
+  const hooks = options.hooks ??
+    CI_DEFAULT_HOOKS.filter((hook) => Object.hasOwn(config.hooks, hook));
+  const missing = hooks.filter((hook) => !Object.hasOwn(config.hooks, hook));
+  if (missing.length > 0) {
+    throw new Error(`No commands configured for hook: ${missing.join(", ")}`);
+  }
+
+  const commits = await listCommits(revisions, root);
+  const files = await getRangeFiles(revisions, root);
+  log(`Checking ${commits.length} commit(s) in ${range}`);
+
+  const run = async (hook: string, args: string[], candidates: string[]) =>
+    await runHook(config, hook, {
+      args,
+      cwd: root,
+      files: candidates,
+      skip: options.skip,
+      logger,
+    });
+
+  // The tree is the range's head: leave out files removed since the commit
+  const commitFiles = new Map<string, string[]>();
+  const candidatesOf = async (commit: CommitInfo) => {
+    if (!commitFiles.has(commit.sha)) {
+      const changed = await getCommitFiles(commit.sha, root);
+      commitFiles.set(
+        commit.sha,
+        changed.filter((file) => files.includes(file)),
+      );
+    }
+    return commitFiles.get(commit.sha)!;
+  };
+
+  const runs: CiRun[] = [];
+  for (const hook of hooks) {
+    warnUnsuppliedArguments(hook, config, logger);
+    for (const commit of commits) {
+      log(`\n▶ ${hook} ${shortSha(commit)} ${commit.subject}`);
+      const candidates = await candidatesOf(commit);
+      if (!takesMessageFile(hook)) {
+        runs.push({ hook, commit, result: await run(hook, [], candidates) });
+        continue;
+      }
+      const messageFile = await Deno.makeTempFile({
+        prefix: "deno-hooks-msg-",
+      });
+      try {
+        await Deno.writeTextFile(messageFile, commit.message);
+        runs.push({
+          hook,
+          commit,
+          result: await run(hook, [messageFile], candidates),
+        });
+      } finally {
+        await Deno.remove(messageFile);
+      }
+    }
+  }
+
+  return {
+    range,
+    commits,
+    runs,
+    success: runs.every(({ result }) => result.success),
+  };
+}
+
+/**
+ * Warn about commands that use placeholders for hook arguments ci cannot
+ * supply, such as the remote of `pre-push`
+ */
+function warnUnsuppliedArguments(
+  hook: string,
+  config: Config,
+  logger: Logger,
+): void {
+  for (const command of getHookConfig(config, hook).commands) {
+    const { run } = normalizeCommand(command);
+    const placeholders = findPlaceholders(run).filter((name) =>
+      !takesMessageFile(hook) ||
+      !["1", "commit_msg_file", "args"].includes(name)
+    );
+    if (placeholders.length === 0) continue;
+    logger.warn(
+      `⚠ ${hook}: "${run}" uses ${
+        placeholders.map((name) => `{${name}}`).join(", ")
+      }, which ci cannot supply; ${
+        placeholders.length === 1 ? "it expands" : "they expand"
+      } to an empty string`,
+    );
+  }
+}
+
+/**
+ * {@linkcode CI_DEFAULT_RANGE}, if the repository has `origin/HEAD`
+ */
+async function defaultRange(root: string): Promise<string> {
+  const [base] = CI_DEFAULT_RANGE.split("..");
+  if (!await revisionExists(base, root)) {
+    throw new Error(
+      `${base} does not exist in this checkout, so the commits to check are ` +
+        "unknown. Pass --range=BASE..HEAD, e.g. --range=origin/main..HEAD " +
+        "(fetch origin/main first in shallow clones)",
+    );
+  }
+  return CI_DEFAULT_RANGE;
+}
+
+/**
+ * Format a CI result as JUnit XML
+ *
+ * Each run becomes a test suite and each command a test case, classed by
+ * hook and commit. Failures carry the exit code and the end of the output;
+ * commands that did not run are marked skipped with the reason.
+ *
+ * @param result - What {@linkcode ci} returned
+ * @returns The XML document
+ */
+export function formatJUnit(result: CiResult): string {
+  const suites = result.runs.map((run) => {
+    const name = runName(run);
+    const { commands, skipped } = run.result;
+    const failures = commands.filter((command) => !command.success).length;
+    const time = seconds(
+      commands.reduce((total, command) => total + command.durationMs, 0),
+    );
+    const cases = [
+      ...commands.map((command) => {
+        const attributes = `classname="${xml(name)}" name="${
+          xml(command.command)
+        }" time="${seconds(command.durationMs)}"`;
+        if (command.success) return `    <testcase ${attributes}/>`;
+        const message = command.timedOut
+          ? "timed out"
+          : `exit code ${command.code}`;
+        const output = tail(`${command.stdout}${command.stderr}`);
+        return [
+          `    <testcase ${attributes}>`,
+          `      <failure message="${xml(message)}">${xml(output)}</failure>`,
+          `    </testcase>`,
+        ].join("\n");
+      }),
+      ...skipped.map(({ command, reason }) =>
+        [
+          `    <testcase classname="${xml(name)}" name="${
+            xml(command)
+          }" time="0">`,
+          `      <skipped message="${xml(skipReason(reason))}"/>`,
+          `    </testcase>`,
+        ].join("\n")
+      ),
+    ];
+    return [
+      `  <testsuite name="${
+        xml(name)
+      }" tests="${cases.length}" failures="${failures}" skipped="${skipped.length}" time="${time}">`,
+      ...cases,
+      `  </testsuite>`,
+    ].join("\n");
+  });
+
+  const count = (field: "commands" | "skipped") =>
+    result.runs.reduce((total, run) => total + run.result[field].length, 0);
+  const failures = result.runs.reduce(
+    (total, run) =>
+      total + run.result.commands.filter((command) => !command.success).length,
+    0,
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="deno-hooks" tests="${
+      count("commands") + count("skipped")
+    }" failures="${failures}" skipped="${count("skipped")}">`,
+    ...suites,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Format a CI result as a Markdown summary
+ *
+ * A table lists every command of every run; the output of failed commands
+ * follows in collapsible sections.
+ *
+ * @param result - What {@linkcode ci} returned
+ * @returns The Markdown text
+ */
+export function formatCiSummary(result: CiResult): string {
+  const rows: string[] = [];
+  const details: string[] = [];
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (const run of result.runs) {
+    const commit = run.commit
+      ? `${code(shortSha(run.commit))} ${cell(run.commit.subject)}`
+      : "";
+    for (const command of run.result.commands) {
+      const duration = `${(command.durationMs / 1000).toFixed(1)}s`;
+      if (command.success) {
+        passed++;
+        rows.push(
+          `| ${run.hook} | ${commit} | ${
+            code(command.command)
+          } | ✅ passed | ${duration} |`,
+        );
+        continue;
+      }
+      failed++;
+      const status = command.timedOut
+        ? "timed out"
+        : `exit code ${command.code}`;
+      rows.push(
+        `| ${run.hook} | ${commit} | ${
+          code(command.command)
+        } | ❌ ${status} | ${duration} |`,
+      );
+      const output = tail(`${command.stdout}${command.stderr}`).trimEnd();
+      details.push(
+        [
+          `<details><summary>❌ ${html(runName(run))}: ${
+            html(command.command)
+          }</summary>`,
+          "",
+          "```text",
+          output.replaceAll("```", "`​``"),
+          "```",
+          "",
+          "</details>",
+        ].join("\n"),
+      );
+    }
+    for (const { command, reason } of run.result.skipped) {
+      skipped++;
+      rows.push(
+        `| ${run.hook} | ${commit} | ${code(command)} | ⏭️ ${
+          skipReason(reason)
+        } | |`,
+      );
+    }
+  }
+
+  const heading = `### ${result.success ? "✅" : "❌"} deno-hooks: ${
+    code(result.range)
+  }`;
+  const totals =
+    `${passed} passed, ${failed} failed, ${skipped} skipped across ${result.commits.length} commit(s)`;
+  const table = rows.length > 0
+    ? [
+      "| Hook | Commit | Command | Result | Time |",
+      "| --- | --- | --- | --- | --- |",
+      ...rows,
+    ].join("\n")
+    : "No commands ran.";
+  return `${[heading, totals, table, ...details].join("\n\n")}\n`;
+}
+
+/**
+ * Whether a hook's first argument is a commit message file
+ */
+function takesMessageFile(hook: string): boolean {
+  return GIT_HOOKS[hook]?.args[0] === "commit_msg_file";
+}
+
+/**
+ * Abbreviated commit hash
+ */
+function shortSha(commit: CommitInfo): string {
+  return commit.sha.slice(0, 7);
+}
+
+/**
+ * Name of a run: the hook, plus the commit for per-commit hooks
+ */
+function runName(run: CiRun): string {
+  return run.commit ? `${run.hook} @ ${shortSha(run.commit)}` : run.hook;
+}
+
+/**
+ * Readable form of a skip reason
+ */
+function skipReason(reason: string): string {
+  return `skipped (${reason.replaceAll("-", " ")})`;
+}
+
+/**
+ * Milliseconds as seconds with three decimals
+ */
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * The end of a command's output, at most {@linkcode OUTPUT_LIMIT} characters
+ */
+function tail(text: string): string {
+  return text.length <= OUTPUT_LIMIT ? text : text.slice(-OUTPUT_LIMIT);
+}
+
+/**
+ * Drop terminal escape sequences (ESC, `[`, parameters and a letter) and the
+ * control characters other than tab, line feed and carriage return
+ */
+function stripControl(text: string): string {
+  const [first, ...rest] = text.split("\x1b");
+  const withoutEscapes = [
+    first,
+    ...rest.map((part) => part.replace(/^\[[0-9;]*[A-Za-z]/, "")),
+  ].join("");
+  return [...withoutEscapes]
+    .filter((char) => char.charCodeAt(0) >= 0x20 || "\t\n\r".includes(char))
+    .join("");
+}
+
+/**
+ * Escape text for an XML attribute or element, dropping terminal escape
+ * sequences and the control characters XML 1.0 does not allow
+ */
+function xml(text: string): string {
+  return stripControl(text)
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+/**
+ * Escape text for HTML inside Markdown
+ */
+function html(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function cell(text: string): string {
+  return html(text).replaceAll("|", "\\|");
+}
+
+/**
+ * Format text as an inline code span that is safe in a table cell
+ */
+function code(text: string): string {
+  const fence = text.includes("`") ? "``" : "`";
+  return `${fence}${text.replaceAll("|", "\\|")}${fence}`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for the command line interface
+ */
+
+import { expect } from "@std/expect";
+import { main } from "./cli.ts";
+import { withTempRepo } from "./test-utils.ts";
+
+/**
+ * Run the CLI, collecting what it prints and the code it exits with
+ */
+async function runCli(
+  args: string[],
+): Promise<{ code?: number; stdout: string }> {
+  const lines: string[] = [];
+  let code: number | undefined;
+  const { log } = console;
+  const { exit } = Deno;
+  console.log = (...data: unknown[]) => lines.push(data.join(" "));
+  Deno.exit = ((status?: number) => {
+    code = status;
+  }) as typeof Deno.exit;
+  try {
+    await main(args);
+  } finally {
+    console.log = log;
+    Deno.exit = exit;
+  }
+  return { code, stdout: lines.join("\n") };
+}
+
+Deno.test("main - install --json keeps unknown hook names an error", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - deno lint\n  pre-comit:\n    - deno fmt\n",
+    );
+
+    const { code, stdout } = await runCli(["install", "--json"]);
+
+    expect(code).toBe(1);
+    const report = JSON.parse(stdout);
+    expect(report).toMatchObject({ command: "install", success: false });
+    expect(report.error).toContain('Unknown git hook "pre-comit"');
+    await expect(Deno.stat(`${root}/.git/hooks/pre-commit`)).rejects.toThrow();
+  });
+});
+
+Deno.test("main - install --json keeps missing deno tasks an error", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - deno task lint\n",
+    );
+
+    const { code, stdout } = await runCli(["install", "--json"]);
+
+    expect(code).toBe(1);
+    const report = JSON.parse(stdout);
+    expect(report).toMatchObject({ command: "install", success: false });
+    expect(report.error).toContain(
+      "Commands run deno tasks that do not exist",
+    );
+    await expect(Deno.stat(`${root}/.git/hooks/pre-commit`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,475 @@
+#!/usr/bin/env -S deno run -A
+
+/**
+ * Command line interface for deno-hooks
+ *
+ * Parses arguments and dispatches to the requested command. Running without
+ * a command installs hooks, so `deno run -A jsr:@theswanfactory/deno-hooks`
+ * keeps working as before.
+ *
+ * @module
+ */
+
+import {
+  EXISTING_HOOK_MODES,
+  type ExistingHookMode,
+  install,
+  type InstallOptions,
+} from "./install.ts";
+import {
+  checkCommitMessage,
+  formatCommitMessageProblems,
+} from "./commit-msg.ts";
+import { ci, formatCiSummary, formatJUnit } from "./ci.ts";
+import { loadConfig } from "./config.ts";
+import { getGitRoot } from "./git.ts";
+import { IMPORT_SOURCES, importHooks, type ImportSource } from "./import.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import { migrate } from "./migrate.ts";
+import {
+  errorReport,
+  installReport,
+  runReport,
+  statusReport,
+} from "./report.ts";
+import { parseSkipList, runHook } from "./run.ts";
+import { status } from "./status.ts";
+import { checkTasks } from "./tasks.ts";
+import { uninstall } from "./uninstall.ts";
+
+/**
+ * Commands understood by the CLI
+ */
+const COMMANDS = [
+  "install",
+  "uninstall",
+  "status",
+  "check",
+  "run",
+  "ci",
+  "lint-commit-msg",
+  "migrate",
+  "import",
+] as const;
+
+/**
+ * A CLI command name
+ */
+type Command = typeof COMMANDS[number];
+
+/**
+ * Commands that can print a JSON report instead of text
+ */
+const JSON_COMMANDS: readonly Command[] = ["install", "status", "run"];
+
+/**
+ * Prefix for the error message printed when a command fails
+ */
+const FAILURE_LABELS: Record<Command, string> = {
+  install: "Installation",
+  uninstall: "Uninstall",
+  status: "Status check",
+  check: "Configuration check",
+  run: "Hook run",
+  ci: "CI run",
+  "lint-commit-msg": "Commit message check",
+  migrate: "Migration",
+  import: "Import",
+};
+
+/**
+ * Parsed command line
+ */
+interface CliArgs {
+  /** Command to run (defaults to "install") */
+  command: Command;
+  /** Flags shared by all commands */
+  options: InstallOptions;
+  /** Arguments after the command (e.g., hook name and hook arguments) */
+  positionals: string[];
+  /** Read stdin and pass it to the hook's commands (`run --stdin`) */
+  stdin: boolean;
+  /** Print a JSON report instead of text (`--json`) */
+  json: boolean;
+  /** Flags of the `ci` command */
+  ci: CiArgs;
+  /** Hook manager to import from (`import --from=lefthook`) */
+  from?: ImportSource;
+}
+
+/**
+ * Flags of the `ci` command
+ */
+interface CiArgs {
+  /** Hooks to run (`--hooks=pre-commit,commit-msg`) */
+  hooks?: string[];
+  /** Commits to check (`--range=origin/main..HEAD`) */
+  range?: string;
+  /** File to write JUnit XML to (`--junit=FILE`) */
+  junit?: string;
+  /** File to write the Markdown summary to (`--summary=FILE`) */
+  summary?: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(args: string[]): CliArgs {
+  let command: Command | undefined;
+  const options: InstallOptions = {};
+  const positionals: string[] = [];
+  let stdin = false;
+  let json = false;
+  const ci: CiArgs = {};
+  let from: ImportSource | undefined;
+
+  for (const [index, arg] of args.entries()) {
+    if (arg === "--") {
+      positionals.push(...args.slice(index + 1));
+      break;
+    } else if (arg === "--yes" || arg === "-y") {
+      options.yes = true;
+    } else if (arg === "--no-prompt") {
+      options.interactive = false;
+    } else if (arg === "--verbose" || arg === "-v") {
+      options.verbose = true;
+    } else if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (arg.startsWith("--existing=")) {
+      const mode = arg.slice("--existing=".length);
+      if (!(EXISTING_HOOK_MODES as readonly string[]).includes(mode)) {
+        throw new Error(
+          `Invalid --existing mode: ${mode} (expected one of: ${
+            EXISTING_HOOK_MODES.join(", ")
+          })`,
+        );
+      }
+      options.existing = mode as ExistingHookMode;
+    } else if (arg === "--help" || arg === "-h") {
+      printHelp();
+      Deno.exit(0);
+    } else if (arg === "--stdin") {
+      stdin = true;
+    } else if (arg === "--json") {
+      json = true;
+    } else if (arg.startsWith("--hooks=")) {
+      ci.hooks = arg.slice("--hooks=".length).split(",")
+        .map((hook) => hook.trim()).filter((hook) => hook !== "");
+    } else if (arg.startsWith("--range=")) {
+      ci.range = arg.slice("--range=".length);
+    } else if (arg.startsWith("--junit=")) {
+      ci.junit = arg.slice("--junit=".length);
+    } else if (arg.startsWith("--summary=")) {
+      ci.summary = arg.slice("--summary=".length);
+    } else if (arg.startsWith("--from=")) {
+      const source = arg.slice("--from=".length);
+      if (!(IMPORT_SOURCES as readonly string[]).includes(source)) {
+        throw new Error(
+          `Invalid --from source: ${source} (expected one of: ${
+            IMPORT_SOURCES.join(", ")
+          })`,
+        );
+      }
+      from = source as ImportSource;
+    } else if (command !== undefined && !arg.startsWith("-")) {
+      positionals.push(arg);
+    } else if (!arg.startsWith("-")) {
+      if (!(COMMANDS as readonly string[]).includes(arg)) {
+        throw new Error(
+          `Unknown command: ${arg} (expected one of: ${COMMANDS.join(", ")})`,
+        );
+      }
+      command = arg as Command;
+    }
+  }
+
+  return {
+    command: command ?? "install",
+    options,
+    positionals,
+    stdin,
+    json,
+    ci,
+    from,
+  };
+}
+
+/**
+ * Print CLI help message
+ */
+function printHelp(): void {
+  console.log(`
+Deno Hooks - Git hooks for Deno projects
+
+USAGE:
+  deno run -A deno-hooks [COMMAND] [OPTIONS]
+
+COMMANDS:
+  install         Install git hooks from configuration (default)
+  uninstall       Remove deno-hooks scripts and restore backed up hooks
+  status          Compare installed hooks with the configuration
+                  (exits 1 when they are out of sync)
+  check           Validate the configuration and check that every
+                  deno task it runs exists (exits 1 on problems)
+  run HOOK [-- ARGS...]
+                  Run a hook's commands without git, forwarding ARGS
+                  as the hook arguments
+  ci              Run the pre-commit, commit-msg and pre-push commands
+                  over a range of commits without installing anything
+                  (each hook runs once per commit; exits 1 on failure)
+  lint-commit-msg FILE
+                  Check a commit message against Conventional Commits
+                  and the commit_msg rules in the configuration
+  migrate         Convert a v0.2.x configuration (id/glob/name entries
+                  and deno-fmt, deno-lint, deno-test) to the current
+                  format
+  import          Generate deno-hooks.yml from a Husky, lefthook,
+                  simple-git-hooks or pre-commit setup, listing
+                  anything that could not be converted
+
+OPTIONS:
+  --yes, -y       Skip interactive prompts (use defaults); unknown
+                  hooks and missing deno tasks only warn
+  --no-prompt     Skip interactive prompts but keep validation strict
+  --verbose, -v   Show detailed output during installation
+  --existing=MODE How to treat hooks not generated by deno-hooks:
+                    refuse        abort without changing anything
+                    backup        save as <hook>.deno-hooks.bak and replace
+                    chain-before  back up and run it before our commands
+                    chain-after   back up and run it after our commands
+                  (default: ask, or backup with --yes or --no-prompt)
+  --dry-run       Show the changes as a diff without writing anything
+                  (install: the hook scripts, migrate: the configuration,
+                  import: print the generated configuration)
+  --stdin         Pass this process's stdin to the commands (run only)
+  --json          Print a JSON report instead of text (install, status
+                  and run; implies --no-prompt for install)
+  --hooks=LIST    Comma-separated hooks to run (ci only)
+  --range=RANGE   Commits to check (ci only, default: origin/HEAD..HEAD)
+  --junit=FILE    Write JUnit XML with one test per command (ci only)
+  --summary=FILE  Write a Markdown summary (ci only, default:
+                  appended to $GITHUB_STEP_SUMMARY when set)
+  --from=SOURCE   Hook manager to import from (import only): husky,
+                  lefthook, simple-git-hooks or pre-commit (default:
+                  the only one found)
+  --help, -h      Show this help message
+
+EXAMPLES:
+  # Install hooks (interactive)
+  deno run -A jsr:@theswanfactory/deno-hooks
+
+  # Install with automatic yes
+  deno run -A jsr:@theswanfactory/deno-hooks --yes
+
+  # Install with verbose output
+  deno run -A jsr:@theswanfactory/deno-hooks --verbose
+
+  # Review what a configuration change would do to the installed hooks
+  deno run -A jsr:@theswanfactory/deno-hooks --dry-run
+
+  # Keep an existing Git LFS hook running after our commands
+  deno run -A jsr:@theswanfactory/deno-hooks --existing=chain-after
+
+  # Fail CI when installed hooks drift from deno-hooks.yml
+  deno run -A jsr:@theswanfactory/deno-hooks status
+
+  # Machine-readable results for scripts and dashboards
+  deno run -A jsr:@theswanfactory/deno-hooks run pre-commit --json
+
+  # Catch invalid settings and misspelled tasks before committing them
+  deno run -A jsr:@theswanfactory/deno-hooks check
+
+  # Run commit-msg commands against a message file
+  deno run -A jsr:@theswanfactory/deno-hooks run commit-msg -- msg.txt
+
+  # Check every commit of a pull request and report to the CI system
+  deno run -A jsr:@theswanfactory/deno-hooks ci --range=origin/main..HEAD --junit=hooks.xml
+
+  # Check commit messages (in deno-hooks.yml, under hooks.commit-msg)
+  deno run -A jsr:@theswanfactory/deno-hooks lint-commit-msg {commit_msg_file}
+
+  # Preview the conversion of a v0.2.x configuration
+  deno run -A jsr:@theswanfactory/deno-hooks migrate --dry-run
+
+  # Switch from lefthook: see what would be generated, then write it
+  deno run -A jsr:@theswanfactory/deno-hooks import --from=lefthook --dry-run
+  deno run -A jsr:@theswanfactory/deno-hooks import
+
+  # Remove installed hooks
+  deno run -A jsr:@theswanfactory/deno-hooks uninstall
+
+LEARN MORE:
+  https://jsr.io/@theswanfactory/deno-hooks
+`);
+}
+
+/**
+ * Run the CLI with the given arguments and exit non-zero on failure
+ *
+ * @param args - Command line arguments (usually `Deno.args`)
+ */
+export async function main(args: string[]): Promise<void> {
+  let command: Command = "install";
+  let json = false;
+  // With --json only the report is printed; warnings become part of it
+  const warnings: string[] = [];
+  const jsonLogger: Logger = {
+    info: () => {},
+    warn: (message) => warnings.push(message.replace(/^⚠ /, "")),
+  };
+  try {
+    const parsed = parseArgs(args);
+    command = parsed.command;
+    json = parsed.json;
+    if (json && !JSON_COMMANDS.includes(command)) {
+      throw new Error(
+        `--json is only supported by: ${JSON_COMMANDS.join(", ")}`,
+      );
+    }
+    const logger = json ? jsonLogger : consoleLogger;
+    switch (command) {
+      case "install": {
+        // Prompts cannot be answered behind a JSON report
+        const result = await install(
+          json
+            ? { ...parsed.options, interactive: false, logger }
+            : parsed.options,
+        );
+        if (json) printJson(installReport(result, warnings));
+        break;
+      }
+      case "uninstall":
+        await uninstall({ ...parsed.options, logger });
+        break;
+      case "status": {
+        const result = await status({ ...parsed.options, logger });
+        if (json) printJson(statusReport(result, warnings));
+        if (!result.inSync) Deno.exit(1);
+        break;
+      }
+      case "check": {
+        const gitRoot = await getGitRoot();
+        const config = await loadConfig(gitRoot, { typeCheck: true });
+        const problems = await checkTasks(config, gitRoot);
+        if (problems.length > 0) {
+          console.error(
+            `✗ ${problems.length} command(s) run deno tasks that do not exist:\n\n${
+              problems.map(({ message }) => `  ${message}`).join("\n")
+            }`,
+          );
+          Deno.exit(1);
+        }
+        console.log(
+          "✓ Configuration is valid and every deno task it runs exists",
+        );
+        break;
+      }
+      case "run": {
+        const [hookName, ...hookArgs] = parsed.positionals;
+        if (!hookName) {
+          throw new Error("Missing hook name (usage: run HOOK [-- ARGS...])");
+        }
+        const gitRoot = await getGitRoot();
+        const configPaths: string[] = [];
+        const config = await loadConfig(gitRoot, {
+          logger,
+          onFile: (file) => configPaths.push(file),
+        });
+        const result = await runHook(config, hookName, {
+          args: hookArgs,
+          cwd: gitRoot,
+          stdin: parsed.stdin ? await readStdin() : undefined,
+          skip: parseSkipList(Deno.env.get("DENO_HOOKS_SKIP")),
+          logger,
+          output: !json,
+        });
+        if (json) printJson(runReport(result, configPaths, warnings));
+        if (!result.success) Deno.exit(1);
+        break;
+      }
+      case "ci": {
+        const result = await ci({
+          hooks: parsed.ci.hooks,
+          range: parsed.ci.range,
+          skip: parseSkipList(Deno.env.get("DENO_HOOKS_SKIP")),
+        });
+        if (parsed.ci.junit) {
+          await Deno.writeTextFile(parsed.ci.junit, formatJUnit(result));
+        }
+        const summary = formatCiSummary(result);
+        const stepSummary = Deno.env.get("GITHUB_STEP_SUMMARY");
+        if (parsed.ci.summary) {
+          await Deno.writeTextFile(parsed.ci.summary, summary);
+        } else if (stepSummary) {
+          await Deno.writeTextFile(stepSummary, summary, { append: true });
+        }
+        const failed = result.runs.filter(({ result }) => !result.success);
+        if (failed.length > 0) {
+          console.error(
+            `\n✗ ${failed.length} of ${result.runs.length} run(s) failed`,
+          );
+          Deno.exit(1);
+        }
+        console.log(`\n✓ All ${result.runs.length} run(s) passed`);
+        break;
+      }
+      case "lint-commit-msg": {
+        const [file] = parsed.positionals;
+        if (!file) {
+          throw new Error("Missing message file (usage: lint-commit-msg FILE)");
+        }
+        const config = await loadConfig(await getGitRoot());
+        const message = await Deno.readTextFile(file);
+        const problems = checkCommitMessage(message, config.commit_msg);
+        if (problems.length > 0) {
+          console.error(
+            `✗ Invalid commit message:\n\n${
+              formatCommitMessageProblems(problems)
+            }\n\nYour message was kept in ${file}`,
+          );
+          Deno.exit(1);
+        }
+        console.log("✓ Commit message follows the conventions");
+        break;
+      }
+      case "migrate":
+        await migrate({ dryRun: parsed.options.dryRun });
+        break;
+      case "import":
+        await importHooks({
+          from: parsed.from,
+          dryRun: parsed.options.dryRun,
+        });
+        break;
+    }
+  } catch (error) {
+    if (json) {
+      printJson(errorReport(command, error, warnings));
+    } else {
+      console.error(
+        `\n${FAILURE_LABELS[command]} failed:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Print a JSON report to stdout
+ */
+function printJson(report: unknown): void {
+  console.log(JSON.stringify(report, null, 2));
+}
+
+/**
+ * Read all of stdin
+ */
+async function readStdin(): Promise<Uint8Array> {
+  return await new Response(Deno.stdin.readable).bytes();
+}
+
+// Run if called directly
+if (import.meta.main) {
+  await main(Deno.args);
+}
@@ -0,0 +1,69 @@
+/**
+ * Tests for the built-in commit message checker
+ */
+
+import { expect } from "@std/expect";
+import {
+  checkCommitMessage,
+  formatCommitMessageProblems,
+} from "./commit-msg.ts";
+
+Deno.test("checkCommitMessage - accepts Conventional Commits", () => {
+  expect(checkCommitMessage("feat(cli)!: drop Node 16\n")).toEqual([]);
+  expect(
+    checkCommitMessage(
+      "fix: handle spaces\n\nLonger explanation.\n# Please enter the commit message\n",
+    ),
+  ).toEqual([]);
+  expect(checkCommitMessage("Merge branch 'main' into topic\n")).toEqual([]);
+});
+
+Deno.test("checkCommitMessage - reports each rule with line and column", () => {
+  const problems = checkCommitMessage(
+    `Feat(ui): add a thing\nno blank line\n${"word ".repeat(30)}\n`,
+    {
+      scopes: ["cli"],
+      ticket_pattern: "[A-Z]+-[0-9]+",
+      max_body_line_length: 72,
+    },
+  );
+
+  expect(problems.map(({ line, column, message }) => [line, column, message]))
+    .toEqual([
+      [
+        1,
+        1,
+        'Unknown type "Feat" (allowed: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert)',
+      ],
+      [1, 6, 'Unknown scope "ui" (allowed: cli)'],
+      [1, 1, "Missing ticket reference matching /[A-Z]+-[0-9]+/"],
+      [2, 1, "Separate the header from the body with a blank line"],
+      [3, 73, "Line is 150 characters long, wrap the body at 72"],
+    ]);
+});
+
+Deno.test("checkCommitMessage - limits header length and requires scopes", () => {
+  const header = `feat: ${"x".repeat(60)}`;
+  expect(
+    checkCommitMessage(header, { max_subject_length: 50, require_scope: true }),
+  ).toEqual([
+    {
+      line: 1,
+      column: 5,
+      text: header,
+      message: "A scope is required, e.g. type(scope)",
+    },
+    {
+      line: 1,
+      column: 51,
+      text: header,
+      message: "Header is 66 characters long (max 50)",
+    },
+  ]);
+});
+
+Deno.test("formatCommitMessageProblems - points at the offending column", () => {
+  expect(formatCommitMessageProblems([
+    { line: 1, column: 6, text: "feat(ui): x", message: "Unknown scope" },
+  ])).toBe("1 | feat(ui): x\n         ^ Unknown scope");
+});
@@ -0,0 +1,258 @@
+/**
+ * Built-in Conventional Commits checker for the commit-msg hook
+ *
+ * Validates the header (`type(scope)!: subject`), its length, an optional
+ * ticket reference and the wrapping of the body. Rules are read from the
+ * `commit_msg` section of the configuration.
+ *
+ * @example CLI usage
+ * ```yaml
+ * commit_msg:
+ *   scopes: [cli, config]
+ *   ticket_pattern: "[A-Z]+-[0-9]+"
+ *
+ * hooks:
+ *   commit-msg:
+ *     - deno run -A jsr:@theswanfactory/deno-hooks lint-commit-msg {commit_msg_file}
+ * ```
+ *
+ * @example Programmatic usage
+ * ```ts
+ * import { checkCommitMessage } from "@theswanfactory/deno-hooks";
+ *
+ * const problems = checkCommitMessage("Added stuff", {});
+ * console.log(problems[0].message);
+ * ```
+ *
+ * @module
+ */
+
+import type { CommitMsgConfig } from "./config.ts";
+
+/**
+ * Commit types allowed when `commit_msg.types` is not set
+ */
+export const DEFAULT_COMMIT_TYPES: readonly string[] = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "chore",
+  "revert",
+];
+
+/**
+ * Maximum header length when `commit_msg.max_subject_length` is not set
+ */
+export const DEFAULT_MAX_SUBJECT_LENGTH = 72;
+
+/**
+ * Maximum body line length when `commit_msg.max_body_line_length` is not set
+ */
+export const DEFAULT_MAX_BODY_LINE_LENGTH = 100;
+
+/**
+ * A rule violation in a commit message
+ */
+export interface CommitMsgProblem {
+  /** 1-based line number in the checked message */
+  line: number;
+  /** 1-based column the problem starts at */
+  column: number;
+  /** Content of the offending line */
+  text: string;
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * Header of a Conventional Commit: `type(scope)!: subject`
+ */
+const HEADER_PATTERN =
+  /^(?<type>[^\s():!]+)(?:\((?<scope>[^()]*)\))?(?<breaking>!)?: (?<subject>.*)$/;
+
+/**
+ * Line git writes above the diff in `commit --verbose`; everything below it
+ * is not part of the message
+ */
+const SCISSORS_LINE = "# ------------------------ >8 ------------------------";
+
+/**
+ * Messages generated by git or meant to be squashed later, never checked
+ */
+const SKIPPED_PREFIXES = [
+  "Merge ",
+  "Revert ",
+  "fixup! ",
+  "squash! ",
+  "amend! ",
+];
+
+/**
+ * Check a commit message against Conventional Commits and the configured rules
+ *
+ * Comment lines (starting with `#`) and everything below the scissors line
+ * of `git commit --verbose` are ignored, like git does. Merge, revert,
+ * fixup and squash messages are not checked.
+ *
+ * @param message - The raw commit message, as git wrote it to the file
+ * @param config - The `commit_msg` section of the configuration
+ * @returns Every problem found, in line order (empty if the message is valid)
+ *
+ * @example
+ * ```ts
+ * import { checkCommitMessage } from "@theswanfactory/deno-hooks";
+ *
+ * checkCommitMessage("feat(cli): add lint-commit-msg", { scopes: ["cli"] });
+ * // []
+ * ```
+ */
+export function checkCommitMessage(
+  message: string,
+  config: CommitMsgConfig = {},
+): CommitMsgProblem[] {
+  const {
+    types = DEFAULT_COMMIT_TYPES,
+    scopes,
+    require_scope = false,
+    max_subject_length = DEFAULT_MAX_SUBJECT_LENGTH,
+    ticket_pattern,
+    max_body_line_length = DEFAULT_MAX_BODY_LINE_LENGTH,
+  } = config;
+
+  // Keep original line numbers while dropping comments
+  const lines = message.split("\n").map((text, index) => ({
+    number: index + 1,
+    text: text.replace(/\r$/, ""),
+  }));
+  const scissors = lines.findIndex(({ text }) => text === SCISSORS_LINE);
+  const content = (scissors === -1 ? lines : lines.slice(0, scissors))
+    .filter(({ text }) => !text.startsWith("#"));
+  while (content.length > 0 && content[0].text.trim() === "") content.shift();
+  while (content.length > 0 && content.at(-1)!.text.trim() === "") {
+    content.pop();
+  }
+
+  if (content.length === 0) {
+    return [{ line: 1, column: 1, text: "", message: "Message is empty" }];
+  }
+
+  const [header, ...rest] = content;
+  if (SKIPPED_PREFIXES.some((prefix) => header.text.startsWith(prefix))) {
+    return [];
+  }
+
+  const problems: CommitMsgProblem[] = [];
+  const report = (
+    line: { number: number; text: string },
+    column: number,
+    text: string,
+  ) =>
+    problems.push({
+      line: line.number,
+      column,
+      text: line.text,
+      message: text,
+    });
+
+  const match = header.text.match(HEADER_PATTERN);
+  if (!match?.groups) {
+    report(
+      header,
+      1,
+      `Header must look like "type(scope): subject" (types: ${
+        types.join(", ")
+      })`,
+    );
+  } else {
+    const { type, scope, subject } = match.groups;
+    const scopeColumn = type.length + 2;
+    if (!types.includes(type)) {
+      report(
+        header,
+        1,
+        `Unknown type "${type}" (allowed: ${types.join(", ")})`,
+      );
+    }
+    if (scope === undefined) {
+      if (require_scope) {
+        report(
+          header,
+          type.length + 1,
+          "A scope is required, e.g. type(scope)",
+        );
+      }
+    } else if (scope.trim() === "") {
+      report(header, scopeColumn, "Scope must not be empty");
+    } else if (scopes !== undefined && !scopes.includes(scope)) {
+      report(
+        header,
+        scopeColumn,
+        `Unknown scope "${scope}" (allowed: ${scopes.join(", ")})`,
+      );
+    }
+    if (subject.trim() === "") {
+      report(header, header.text.length + 1, "Subject must not be empty");
+    }
+  }
+
+  if (header.text.length > max_subject_length) {
+    report(
+      header,
+      max_subject_length + 1,
+      `Header is ${header.text.length} characters long (max ${max_subject_length})`,
+    );
+  }
+
+  if (rest.length > 0 && rest[0].text.trim() !== "") {
+    report(rest[0], 1, "Separate the header from the body with a blank line");
+  }
+
+  for (const line of rest) {
+    // A single long word (e.g., a URL) cannot be wrapped
+    if (
+      line.text.length > max_body_line_length && /\s/.test(line.text.trim())
+    ) {
+      report(
+        line,
+        max_body_line_length + 1,
+        `Line is ${line.text.length} characters long, wrap the body at ${max_body_line_length}`,
+      );
+    }
+  }
+
+  if (
+    ticket_pattern !== undefined &&
+    !content.some(({ text }) => new RegExp(ticket_pattern).test(text))
+  ) {
+    report(
+      header,
+      1,
+      `Missing ticket reference matching /${ticket_pattern}/`,
+    );
+  }
+
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Format problems for the console, showing each offending line
+ *
+ * @param problems - Problems returned by {@linkcode checkCommitMessage}
+ * @returns Lines of text with a caret under each problem's column
+ */
+export function formatCommitMessageProblems(
+  problems: CommitMsgProblem[],
+): string {
+  const width = String(Math.max(...problems.map((p) => p.line))).length;
+  return problems.map(({ line, column, text, message }) => {
+    const gutter = `${String(line).padStart(width)} | `;
+    const caret = " ".repeat(gutter.length + column - 1);
+    return `${gutter}${text}\n${caret}^ ${message}`;
+  }).join("\n\n");
+}
@@ -2,29 +2,424 @@
  * Configuration types and parsing for deno-hooks
  */
 
+import { resolve, toFileUrl } from "@std/path";
 import { parse as parseYaml } from "@std/yaml";
+import denoJson from "../deno.json" with { type: "json" };
+import schema from "../deno-hooks.schema.json" with { type: "json" };
+import {
+  checkPlaceholders,
+  findPlaceholders,
+  getGitHookSpec,
+  GIT_HOOKS,
+  suggestHookName,
+} from "./hooks.ts";
+import { readConfigSource } from "./extends.ts";
+import { CHANGED_FILES_HOOKS, usesFiles } from "./files.ts";
+import {
+  type ConfigPath,
+  locateInJson,
+  locateInYaml,
+  type SourceLocation,
+} from "./locate.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import {
+  findPackageDirs,
+  normalizePackageDir,
+  readWorkspaceMembers,
+} from "./workspace.ts";
+
+/**
+ * A command with options, the object form of a hook entry
+ *
+ * @example
+ * ```yaml
+ * hooks:
+ *   pre-commit:
+ *     - run: deno fmt --check
+ *       files: ["*.ts", "*.tsx"]
+ *       exclude: vendor/**
+ *       pass_filenames: true
+ *   pre-push:
+ *     - run: deno run -A scripts/check-push.ts {remote_name}
+ *       stdin: true
+ * ```
+ */
+export interface CommandConfig {
+  /**
+   * Shell command to run. May refer to the hook's arguments with `{args}`,
+   * `{1}`, `{2}`, ... or named placeholders like `{commit_msg_file}`.
+   */
+  run: string;
+  /**
+   * Name other commands of the same hook can refer to in `needs`. Letters,
+   * digits, `-`, `_` and `.` only.
+   */
+  id?: string;
+  /**
+   * Ids of commands that must succeed before this one starts. Commands run
+   * in dependency order; a command is skipped when one of its needs fails.
+   */
+  needs?: string | string[];
+  /**
+   * Glob pattern(s) of staged files this command cares about. The command is
+   * skipped when no staged file matches. Patterns without a `/` match the
+   * file name in any directory (`*.ts`), others match the path from the
+   * repository root (`src/**` or `lib/*.ts`).
+   */
+  files?: string | string[];
+  /** Glob pattern(s) of staged files to ignore, same syntax as `files` */
+  exclude?: string | string[];
+  /**
+   * Append the matching staged files to the command line, split into
+   * several invocations when the list is too long (default: false)
+   */
+  pass_filenames?: boolean;
+  /**
+   * Pipe the data git writes to the hook's stdin (e.g., the refs being
+   * pushed to pre-push) to this command. At most one command per hook.
+   */
+  stdin?: boolean;
+  /**
+   * Directory to run in, relative to the repository root (default: the
+   * hook's `cwd`, or the root). File names passed with `pass_filenames`
+   * are absolute when this is set.
+   */
+  cwd?: string;
+  /**
+   * Environment variables to set, added to the hook's `env`; numbers and
+   * booleans are converted to strings
+   */
+  env?: Record<string, string | number | boolean>;
+  /**
+   * Stop the command and fail the hook after this long: seconds, or a
+   * string like `"90s"`, `"5m"` or `"1h"` (default: the hook's `timeout`)
+   */
+  timeout?: number | string;
+}
+
+/**
+ * A single entry in a hook's command list: a plain shell command or a
+ * {@linkcode CommandConfig}
+ */
+export type HookCommand = string | CommandConfig;
+
+/**
+ * Hook-level options, the object form of a hook entry
+ *
+ * @example
+ * ```yaml
+ * hooks:
+ *   pre-commit:
+ *     stash: true
+ *     timeout: 5m
+ *     commands:
+ *       - deno task fmt
+ *       - run: deno task test
+ *         cwd: packages/api
+ *         env:
+ *           DATABASE_URL: postgres://localhost/test
+ * ```
+ */
+export interface HookConfig {
+  /**
+   * Commands to run, in order. May be left out in a configuration with
+   * `extends` when the hook only sets `remove`.
+   */
+  commands: HookCommand[];
+  /**
+   * How the commands combine with the same hook of an extended
+   * configuration: `"append"` them to the inherited commands (default) or
+   * `"replace"` those
+   */
+  merge?: "append" | "replace";
+  /**
+   * Inherited commands to drop, by `id` or by their `run` text (with
+   * `extends` only)
+   */
+  remove?: string[];
+  /**
+   * Stash unstaged changes and untracked files before running the commands
+   * and restore them afterwards, so checks only see what is being committed
+   * (pre-commit only, default: false)
+   */
+  stash?: boolean;
+  /**
+   * Run independent commands at the same time (default: false). Output is
+   * buffered per command and printed when it finishes, so logs never
+   * interleave.
+   */
+  parallel?: boolean;
+  /**
+   * Maximum number of commands running at once when `parallel` is set
+   * (default: number of CPUs)
+   */
+  concurrency?: number;
+  /**
+   * Stop at the first failing command (default: true). With `false` every
+   * command runs - except those that need a failed one - and a summary of
+   * each command's status and duration is printed at the end.
+   */
+  fail_fast?: boolean;
+  /** Default directory for all commands, relative to the repository root */
+  cwd?: string;
+  /** Environment variables for all commands */
+  env?: Record<string, string | number | boolean>;
+  /** Default timeout for each command, see {@linkcode CommandConfig.timeout} */
+  timeout?: number | string;
+}
+
+/**
+ * A hook entry: a list of commands, or a {@linkcode HookConfig} with options
+ */
+export type HookEntry = HookCommand[] | HookConfig;
+
+/**
+ * Rules for the built-in commit message checker (`lint-commit-msg`)
+ *
+ * @example
+ * ```yaml
+ * commit_msg:
+ *   types: [feat, fix, docs, chore]
+ *   scopes: [cli, config]
+ *   require_scope: true
+ *   max_subject_length: 60
+ *   ticket_pattern: "[A-Z]+-[0-9]+"
+ *   max_body_line_length: 72
+ * ```
+ */
+export interface CommitMsgConfig {
+  /** Allowed commit types (default: the Conventional Commits types) */
+  types?: string[];
+  /** Allowed scopes (default: any) */
+  scopes?: string[];
+  /** Whether every header needs a scope (default: false) */
+  require_scope?: boolean;
+  /** Maximum length of the header line (default: 72) */
+  max_subject_length?: number;
+  /**
+   * Regular expression a ticket reference must match somewhere in the
+   * message (default: no ticket required)
+   */
+  ticket_pattern?: string;
+  /** Maximum length of body lines (default: 100) */
+  max_body_line_length?: number;
+}
 
 /**
  * Complete configuration structure
  */
 export interface Config {
+  /**
+   * Configurations this one is based on: paths relative to this file, https
+   * URLs or `jsr:@scope/name@version/path` specifiers. They are merged in
+   * order, then this configuration on top.
+   */
+  extends?: string | string[];
+  /** Commands per git hook; may be left out when `extends` is set */
   hooks: {
-    [hookName: string]: string[];
+    [hookName: string]: HookEntry;
   };
+  /** Rules for the built-in commit message checker */
+  commit_msg?: CommitMsgConfig;
+  /**
+   * Hook names under `hooks` that are not git hooks, e.g. for use with
+   * `run <hook>`. Any other unknown name is rejected as a likely typo.
+   */
+  custom_hooks?: string[];
+  /**
+   * Package directories of a monorepo, relative to the repository root;
+   * `*` matches any directory name (default: the `workspace` members of the
+   * root deno.json). Only allowed in the root configuration.
+   */
+  packages?: string[];
+}
+
+/**
+ * Define the configuration in `deno-hooks.config.ts`, with type checking
+ *
+ * Takes the configuration, or a function (possibly async) that computes it
+ * when the hooks are installed, and returns it unchanged.
+ *
+ * @param config - The configuration, or a function returning it
+ * @returns The same value, to use as the module's default export
+ *
+ * @example
+ * ```ts
+ * // deno-hooks.config.ts
+ * import { defineConfig } from "jsr:@theswanfactory/deno-hooks";
+ *
+ * const { tasks = {} } = JSON.parse(await Deno.readTextFile("deno.json"));
+ *
+ * export default defineConfig({
+ *   hooks: {
+ *     "pre-commit": Object.keys(tasks)
+ *       .filter((task) => ["fmt", "lint", "check"].includes(task))
+ *       .map((task) => `deno task ${task}`),
+ *   },
+ * });
+ * ```
+ */
+export function defineConfig(
+  config: Config | (() => Config | Promise<Config>),
+): Config | (() => Config | Promise<Config>) {
+  return config;
+}
+
+/**
+ * Keys allowed in the object form of a hook
+ */
+const HOOK_KEYS = Object.keys(schema.definitions.hookConfig.properties);
+
+/**
+ * Keys allowed in the object form of a command
+ */
+export const COMMAND_KEYS = Object.keys(
+  schema.definitions.commandConfig.properties,
+);
+
+/**
+ * Command keys of the v0.2.x format, which `migrate` converts
+ */
+const LEGACY_COMMAND_KEYS = ["glob", "name"];
+
+/**
+ * Keys allowed in the commit_msg section
+ */
+const COMMIT_MSG_KEYS = Object.keys(schema.definitions.commitMsg.properties);
+
+/**
+ * Pattern for command ids, safe to use in shell scripts and env variables
+ */
+export const ID_PATTERN = new RegExp(
+  schema.definitions.commandConfig.properties.id.pattern,
+);
+
+/**
+ * Pattern for environment variable names
+ */
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * JSON Schema of the configuration, also published as
+ * `deno-hooks.schema.json` for editors and YAML language servers
+ */
+export const CONFIG_SCHEMA: Record<string, unknown> = schema;
+
+/**
+ * Where this version's JSON Schema is published, for `$schema` references
+ */
+export const SCHEMA_URL =
+  `https://jsr.io/@theswanfactory/deno-hooks/${denoJson.version}/deno-hooks.schema.json`;
+
+/**
+ * A problem found while validating the configuration
+ */
+export interface ConfigIssue {
+  /** Path to the offending value (e.g., `["hooks", "pre-commit", 0]`) */
+  path: ConfigPath;
+  /** What is wrong */
+  message: string;
+  /** Errors make the configuration invalid, warnings are only printed */
+  severity: "error" | "warning";
+  /** Where the value is written, when the configuration came from a file */
+  location?: SourceLocation;
+}
+
+/**
+ * Thrown by {@linkcode loadConfig} when the configuration is invalid
+ *
+ * The message lists every problem as `file:line:column: message`.
+ */
+export class ConfigError extends Error {
+  /** File the configuration was loaded from */
+  readonly file: string;
+  /** Every problem found, in document order */
+  readonly issues: ConfigIssue[];
+
+  constructor(file: string, issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration in ${file}:\n${
+        issues.map((issue) => `  ${formatConfigIssue(file, issue)}`).join(
+          "\n",
+        )
+      }`,
+    );
+    this.name = "ConfigError";
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Format an issue as `file:line:column: message`, or `file: message` when
+ * its location is unknown
+ */
+function formatConfigIssue(file: string, issue: ConfigIssue): string {
+  if (issue.location === undefined) return `${file}: ${issue.message}`;
+  const { line, column } = issue.location;
+  return `${file}:${line}:${column}: ${issue.message}`;
+}
+
+/**
+ * Options for {@linkcode loadConfig} and {@linkcode validateConfig}
+ */
+export interface ValidateConfigOptions {
+  /**
+   * How to treat hook names git does not know that are not listed in
+   * `custom_hooks` (default: "error")
+   */
+  unknownHooks?: "error" | "warn";
+}
+
+/**
+ * Options for {@linkcode loadConfig}
+ */
+export interface LoadConfigOptions extends ValidateConfigOptions {
+  /** Print which files were loaded, including the `extends` chain */
+  verbose?: boolean;
+  /**
+   * Type-check `deno-hooks.config.ts` with `deno check` before loading it
+   * (default: false)
+   */
+  typeCheck?: boolean;
+  /** Where verbose output and warnings go (default: the console) */
+  logger?: Logger;
+  /**
+   * Called with each configuration file found in the repository: the root
+   * configuration first, then those of packages (files pulled in by
+   * `extends` are not included)
+   */
+  onFile?: (file: string) => void;
 }
 
 /**
  * Load configuration from deno-hooks.yml or deno.json
  *
  * Tries to load configuration in this order:
- * 1. deno-hooks.yml (YAML format)
- * 2. deno.json with "deno-hooks" key (JSON format)
+ * 1. deno-hooks.config.ts (default export, see {@linkcode defineConfig})
+ * 2. deno-hooks.yml (YAML format)
+ * 3. deno.json with "deno-hooks" key (JSON format)
+ *
+ * In a monorepo, packages (see {@linkcode Config.packages}) can have their
+ * own configuration in the same two places. Their commands are merged into
+ * the root configuration: they run in the package directory and, for hooks
+ * that know which files changed, only when a changed file is inside the
+ * package (see {@linkcode scopeToPackage}).
+ *
+ * Configurations listed in `extends` are loaded first and the configuration
+ * is merged onto them (see {@linkcode mergeConfigs}).
  *
  * @param rootDir - The git repository root directory
+ * @param options - Validation options, and whether to print the files loaded
  * @returns Parsed and validated configuration
  *
  * @throws {Error} If no configuration found
- * @throws {Error} If configuration is invalid or malformed
+ * @throws {Error} If a file cannot be parsed, or an extended one cannot be
+ *   read
+ * @throws {Error} If `typeCheck` is set and deno-hooks.config.ts has type
+ *   errors
+ * @throws {ConfigError} If the configuration is invalid, with every problem
+ *   and its location
  *
  * @example
  * ```ts
@@ -34,69 +429,942 @@ export interface Config {
  * console.log(config.hooks);
  * ```
  */
-export async function loadConfig(rootDir: string): Promise<Config> {
-  // Try deno-hooks.yml first
-  const yamlPath = `${rootDir}/deno-hooks.yml`;
+export async function loadConfig(
+  rootDir: string,
+  options: LoadConfigOptions = {},
+): Promise<Config> {
+  const root = await readConfigFile(rootDir, options, false);
+
+  const patterns = root?.packages ?? await readWorkspaceMembers(rootDir);
+  const packages: [string, Config][] = [];
+  for (const dir of await findPackageDirs(rootDir, patterns ?? [])) {
+    const config = await readConfigFile(`${rootDir}/${dir}`, options, true);
+    if (config) packages.push([dir, config]);
+  }
+
+  if (!root && packages.length === 0) {
+    throw new Error(
+      "No configuration found. Create deno-hooks.yml or deno-hooks.config.ts, or add deno-hooks config to deno.json",
+    );
+  }
+
+  return packages.reduce(
+    (merged, [dir, config]) => mergePackageConfig(merged, dir, config),
+    root ?? { hooks: {} },
+  );
+}
+
+/**
+ * Read and resolve the configuration in one directory, if there is any
+ *
+ * @param nested - Whether this is a package of a monorepo, where
+ *   repository-wide settings are not allowed
+ */
+async function readConfigFile(
+  dir: string,
+  options: LoadConfigOptions,
+  nested: boolean,
+): Promise<Config | undefined> {
+  const module = await importConfigModule(dir, options);
+  if (module) {
+    reportFile(module.file, options);
+    return await resolveConfig(module, options, nested, [module.file]);
+  }
+
+  // Then deno-hooks.yml, then deno.json
+  for (const file of [`${dir}/deno-hooks.yml`, `${dir}/deno.json`]) {
+    let text: string;
+    try {
+      text = await Deno.readTextFile(file);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      throw error;
+    }
+    const parsed = parseConfigText(text, file, true);
+    if (parsed) {
+      reportFile(file, options);
+      return await resolveConfig(parsed, options, nested, [file]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Announce a configuration file found in the repository
+ */
+function reportFile(file: string, options: LoadConfigOptions): void {
+  options.onFile?.(file);
+  if (options.verbose) {
+    (options.logger ?? consoleLogger).info(`Configuration: ${file}`);
+  }
+}
+
+/**
+ * A parsed configuration file
+ */
+interface ParsedConfig {
+  config: Config;
+  /** Path or URL of the file */
+  file: string;
+  /**
+   * Find where a configuration path is written in the file (not available
+   * for TypeScript configurations)
+   */
+  locate?: (path: ConfigPath) => SourceLocation;
+}
+
+/**
+ * Import deno-hooks.config.ts from a directory, if it exists
+ *
+ * The default export is the configuration, or a function (possibly async)
+ * returning it.
+ *
+ * @throws {Error} If type checking is requested and fails, or the module
+ *   cannot be imported
+ */
+async function importConfigModule(
+  dir: string,
+  options: LoadConfigOptions,
+): Promise<ParsedConfig | undefined> {
+  const file = `${dir}/deno-hooks.config.ts`;
+  let info: Deno.FileInfo;
   try {
-    const yamlContent = await Deno.readTextFile(yamlPath);
-    const config = parseYaml(yamlContent) as Config;
-    validateConfig(config);
-    return config;
+    info = await Deno.stat(file);
   } catch (error) {
-    if (!(error instanceof Deno.errors.NotFound)) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to parse ${yamlPath}: ${message}`);
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+
+  if (options.typeCheck) {
+    const { success, stderr } = await new Deno.Command(Deno.execPath(), {
+      args: ["check", "--quiet", file],
+      cwd: dir,
+      env: { NO_COLOR: "1" },
+      stdout: "null",
+      stderr: "piped",
+    }).output();
+    if (!success) {
+      throw new Error(
+        `Type errors in ${file}:\n\n${new TextDecoder().decode(stderr).trim()}`,
+      );
     }
   }
 
-  // Try deno.json
-  const jsonPath = `${rootDir}/deno.json`;
+  // The modification time makes edits visible to later loads
+  const url = toFileUrl(resolve(file));
+  url.searchParams.set("mtime", String(info.mtime?.getTime() ?? 0));
+  let exported: unknown;
   try {
-    const jsonContent = await Deno.readTextFile(jsonPath);
-    const json = JSON.parse(jsonContent);
-    if (json["deno-hooks"]) {
-      const config = json["deno-hooks"] as Config;
-      validateConfig(config);
-      return config;
-    }
+    exported = (await import(url.href)).default;
   } catch (error) {
-    if (!(error instanceof Deno.errors.NotFound)) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to parse ${jsonPath}: ${message}`);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load ${file}: ${message}`);
+  }
+  if (typeof exported === "function") {
+    exported = await exported();
+  }
+  if (exported === undefined) {
+    throw new Error(
+      `${file} must export its configuration as default, e.g. export default defineConfig({ hooks: {} })`,
+    );
+  }
+  return { config: exported as Config, file };
+}
+
+/**
+ * Parse a configuration file: YAML, or JSON for `.json` files
+ *
+ * A JSON document with a "deno-hooks" key holds the configuration under
+ * that key, like deno.json.
+ *
+ * @param embedded - Whether the configuration must be under the
+ *   "deno-hooks" key of a JSON document (as in deno.json)
+ * @returns The configuration, or undefined if an embedding document has none
+ * @throws {Error} If the file cannot be parsed
+ */
+function parseConfigText(
+  text: string,
+  file: string,
+  embedded: boolean,
+): ParsedConfig | undefined {
+  const json = /\.json$/.test(new URL(file, "file:///").pathname);
+  let document: unknown;
+  try {
+    document = json ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse ${file}: ${message}`);
+  }
+
+  if (!json) {
+    return {
+      config: document as Config,
+      file,
+      locate: (path) => locateInYaml(text, path),
+    };
+  }
+  const record = document as Record<string, unknown> | null;
+  if (record?.["deno-hooks"]) {
+    return {
+      config: record["deno-hooks"] as Config,
+      file,
+      locate: (path) => locateInJson(text, ["deno-hooks", ...path]),
+    };
+  }
+  if (embedded) return undefined;
+  return {
+    config: document as Config,
+    file,
+    locate: (path) => locateInJson(text, path),
+  };
+}
+
+/**
+ * Validate a parsed configuration and merge it onto the configurations it
+ * extends
+ *
+ * @param chain - Files from the root configuration down to this one, to
+ *   detect cycles
+ */
+async function resolveConfig(
+  parsed: ParsedConfig,
+  options: LoadConfigOptions,
+  nested: boolean,
+  chain: string[],
+): Promise<Config> {
+  const { config, file, locate } = parsed;
+  const issues = validateConfig(config, options);
+  if (nested && typeof config === "object" && config !== null) {
+    for (const key of ["packages", "commit_msg"] as const) {
+      if (config[key] !== undefined) {
+        issues.push({
+          path: [key],
+          message: `${key} is only allowed in the root configuration`,
+          severity: "error",
+        });
+      }
     }
   }
+  assertValidConfig(issues, file, locate, options.logger);
+
+  if (config.extends === undefined) return config;
+
+  const specifiers = Array.isArray(config.extends)
+    ? config.extends
+    : [config.extends];
+  let base: Config | undefined;
+  for (const specifier of specifiers) {
+    const source = await readConfigSource(specifier, file);
+    if (chain.includes(source.location)) {
+      throw new Error(
+        `Circular extends: ${[...chain, source.location].join(" -> ")}`,
+      );
+    }
+    if (options.verbose) {
+      (options.logger ?? consoleLogger).info(
+        `${"  ".repeat(chain.length)}extends ${specifier}${
+          source.location === specifier ? "" : ` (${source.location})`
+        }${source.cached ? " [cached]" : ""}`,
+      );
+    }
 
-  throw new Error(
-    "No configuration found. Create deno-hooks.yml or add deno-hooks config to deno.json",
+    const baseParsed = parseConfigText(source.text, source.location, false)!;
+    const resolved = await resolveConfig(baseParsed, options, false, [
+      ...chain,
+      source.location,
+    ]);
+    base = base ? mergeConfigs(base, resolved) : resolved;
+  }
+
+  assertValidConfig(
+    findUnmatchedRemovals(base!, config),
+    file,
+    locate,
+    options.logger,
   );
+  return mergeConfigs(base!, config);
 }
 
 /**
- * Validate configuration structure
+ * Print warnings and throw a {@linkcode ConfigError} with located errors if
+ * there are any
+ */
+function assertValidConfig(
+  issues: ConfigIssue[],
+  file: string,
+  locate: ((path: ConfigPath) => SourceLocation) | undefined,
+  logger: Logger = consoleLogger,
+): void {
+  if (locate) {
+    for (const issue of issues) issue.location = locate(issue.path);
+    issues.sort((a, b) =>
+      a.location!.line - b.location!.line ||
+      a.location!.column - b.location!.column
+    );
+  }
+
+  for (const issue of issues) {
+    if (issue.severity === "warning") {
+      logger.warn(`⚠ ${formatConfigIssue(file, issue)}`);
+    }
+  }
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    throw new ConfigError(file, errors);
+  }
+}
+
+/**
+ * Callback collecting validation problems
+ */
+type Report = (
+  path: ConfigPath,
+  message: string,
+  severity?: ConfigIssue["severity"],
+) => void;
+
+/**
+ * Check a configuration and collect every problem
+ *
+ * Validates the structure described by {@linkcode CONFIG_SCHEMA} as well as
+ * rules a schema cannot express, such as placeholders a hook never receives,
+ * dependency cycles or hook names git never runs.
+ *
+ * @param config - The parsed configuration
+ * @param options - Validation options
+ * @returns Every problem found (empty if the configuration is valid)
+ *
+ * @example
+ * ```ts
+ * import { validateConfig } from "@theswanfactory/deno-hooks";
+ *
+ * const issues = validateConfig({ hooks: { "pre-commit": [""] } });
+ * console.log(issues[0].message); // Empty command found in hooks.pre-commit
+ * ```
  */
-function validateConfig(config: Config): void {
-  if (!config.hooks || typeof config.hooks !== "object") {
-    throw new Error("Configuration must have a 'hooks' object");
+export function validateConfig(
+  config: Config,
+  options: ValidateConfigOptions = {},
+): ConfigIssue[] {
+  const { unknownHooks = "error" } = options;
+  const issues: ConfigIssue[] = [];
+  const report: Report = (path, message, severity = "error") =>
+    issues.push({ path, message, severity });
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    report([], "Configuration must be an object with a 'hooks' object");
+    return issues;
+  }
+  const extending = config.extends !== undefined;
+  if (extending) {
+    validateExtends(config.extends, report);
+  }
+  // With extends, all hooks may be inherited
+  if (
+    !(extending && config.hooks === undefined) &&
+    (!config.hooks || typeof config.hooks !== "object" ||
+      Array.isArray(config.hooks))
+  ) {
+    report(["hooks"], "Configuration must have a 'hooks' object");
+    return issues;
   }
 
-  for (const [hookName, commands] of Object.entries(config.hooks)) {
-    if (!Array.isArray(commands)) {
-      throw new Error(`hooks.${hookName} must be an array of commands`);
+  const customHooks = validateCustomHooks(config.custom_hooks, report);
+
+  for (const [hookName, entry] of Object.entries(config.hooks ?? {})) {
+    const hookPath: ConfigPath = ["hooks", hookName];
+    if (
+      !Object.hasOwn(GIT_HOOKS, hookName) && !customHooks.includes(hookName)
+    ) {
+      const suggestion = suggestHookName(hookName);
+      report(
+        hookPath,
+        `Unknown git hook "${hookName}"${
+          suggestion ? ` (did you mean "${suggestion}"?)` : ""
+        }: git never runs it. List it in custom_hooks if this is intended`,
+        unknownHooks === "warn" ? "warning" : "error",
+      );
     }
 
-    for (const command of commands) {
-      if (typeof command !== "string") {
-        throw new Error(
-          `Each command in hooks.${hookName} must be a string, got: ${typeof command}`,
+    const before = issues.length;
+    const commandsPath = Array.isArray(entry)
+      ? hookPath
+      : [...hookPath, "commands"];
+    const commands = Array.isArray(entry)
+      ? entry
+      : validateHookConfig(hookName, entry, extending, report);
+    if (commands === undefined) continue;
+
+    for (const [index, command] of commands.entries()) {
+      const path = [...commandsPath, index];
+      if (typeof command === "string") {
+        if (command.trim() === "") {
+          report(path, `Empty command found in hooks.${hookName}`);
+        }
+        continue;
+      }
+
+      if (
+        typeof command !== "object" || command === null ||
+        Array.isArray(command)
+      ) {
+        report(
+          path,
+          `Each command in hooks.${hookName} must be a string or an object with "run", got: ${typeof command}`,
         );
+        continue;
       }
-      if (command.trim() === "") {
-        throw new Error(
-          `Empty command found in hooks.${hookName}`,
+      validateCommandConfig(hookName, command, path, report);
+    }
+
+    // Rules across commands assume every command is well-formed
+    if (issues.length === before) {
+      const normalized = commands.map(normalizeCommand);
+      validateHookInputs(hookName, normalized, commandsPath, report);
+      validateDependencies(hookName, normalized, commandsPath, report);
+    }
+  }
+
+  if (config.commit_msg !== undefined) {
+    validateCommitMsgConfig(config.commit_msg, report);
+  }
+  if (config.packages !== undefined) {
+    validatePackages(config.packages, report);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the extends reference or list of references
+ */
+function validateExtends(value: unknown, report: Report): void {
+  const list = Array.isArray(value) ? value : [value];
+  for (const [index, specifier] of list.entries()) {
+    if (typeof specifier !== "string" || specifier.trim() === "") {
+      report(
+        Array.isArray(value) ? ["extends", index] : ["extends"],
+        "extends must be a path, URL or jsr: specifier, or a list of them",
+      );
+    }
+  }
+}
+
+/**
+ * Validate the packages list: relative paths inside the repository
+ */
+function validatePackages(packages: unknown, report: Report): void {
+  if (!Array.isArray(packages)) {
+    report(["packages"], "packages must be a list of directories");
+    return;
+  }
+  for (const [index, dir] of packages.entries()) {
+    if (
+      typeof dir !== "string" || normalizePackageDir(dir) === "" ||
+      dir.startsWith("/") || dir.split("/").includes("..")
+    ) {
+      report(
+        ["packages", index],
+        `packages[${index}] must be a directory inside the repository, like "packages/api" or "packages/*"`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate the custom_hooks list and return the names in it
+ */
+function validateCustomHooks(customHooks: unknown, report: Report): string[] {
+  if (customHooks === undefined) return [];
+  if (
+    !Array.isArray(customHooks) ||
+    !customHooks.every((name) => typeof name === "string" && name !== "")
+  ) {
+    report(["custom_hooks"], "custom_hooks must be a list of hook names");
+    return [];
+  }
+  for (const [index, name] of customHooks.entries()) {
+    if (Object.hasOwn(GIT_HOOKS, name)) {
+      report(
+        ["custom_hooks", index],
+        `"${name}" is a git hook and does not need to be listed in custom_hooks`,
+        "warning",
+      );
+    }
+  }
+  return customHooks;
+}
+
+/**
+ * Validate the commit_msg section
+ */
+function validateCommitMsgConfig(
+  commitMsg: CommitMsgConfig,
+  report: Report,
+): void {
+  const path: ConfigPath = ["commit_msg"];
+  if (
+    typeof commitMsg !== "object" || commitMsg === null ||
+    Array.isArray(commitMsg)
+  ) {
+    report(path, "commit_msg must be an object");
+    return;
+  }
+
+  for (const key of Object.keys(commitMsg)) {
+    if (!COMMIT_MSG_KEYS.includes(key)) {
+      report(
+        [...path, key],
+        `Unknown key "${key}" in commit_msg (allowed: ${
+          COMMIT_MSG_KEYS.join(", ")
+        })`,
+      );
+    }
+  }
+
+  for (const key of ["types", "scopes"] as const) {
+    const value = commitMsg[key];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) || value.length === 0 ||
+        !value.every((item) => typeof item === "string" && item !== ""))
+    ) {
+      report(
+        [...path, key],
+        `commit_msg.${key} must be a non-empty list of strings`,
+      );
+    }
+  }
+
+  if (
+    commitMsg.require_scope !== undefined &&
+    typeof commitMsg.require_scope !== "boolean"
+  ) {
+    report(
+      [...path, "require_scope"],
+      "commit_msg.require_scope must be true or false",
+    );
+  }
+
+  for (const key of ["max_subject_length", "max_body_line_length"] as const) {
+    const value = commitMsg[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      report([...path, key], `commit_msg.${key} must be a positive integer`);
+    }
+  }
+
+  if (commitMsg.ticket_pattern !== undefined) {
+    const ticketPath = [...path, "ticket_pattern"];
+    if (typeof commitMsg.ticket_pattern !== "string") {
+      report(
+        ticketPath,
+        "commit_msg.ticket_pattern must be a regular expression",
+      );
+      return;
+    }
+    try {
+      new RegExp(commitMsg.ticket_pattern);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report(ticketPath, `commit_msg.ticket_pattern is invalid: ${message}`);
+    }
+  }
+}
+
+/**
+ * Validate the object form of a hook and return its commands
+ *
+ * @returns The commands, or undefined if there is no usable command list
+ */
+function validateHookConfig(
+  hookName: string,
+  entry: HookConfig,
+  extending: boolean,
+  report: Report,
+): HookCommand[] | undefined {
+  const path: ConfigPath = ["hooks", hookName];
+  if (typeof entry !== "object" || entry === null) {
+    report(
+      path,
+      `hooks.${hookName} must be an array of commands or an object with "commands"`,
+    );
+    return undefined;
+  }
+
+  for (const key of Object.keys(entry)) {
+    if (!HOOK_KEYS.includes(key)) {
+      report(
+        [...path, key],
+        `Unknown key "${key}" in hooks.${hookName} (allowed: ${
+          HOOK_KEYS.join(", ")
+        })`,
+      );
+    }
+  }
+
+  if (entry.stash !== undefined) {
+    if (typeof entry.stash !== "boolean") {
+      report(
+        [...path, "stash"],
+        `hooks.${hookName}.stash must be true or false`,
+      );
+    } else if (entry.stash && hookName !== "pre-commit") {
+      report(
+        [...path, "stash"],
+        `hooks.${hookName}.stash is only supported for pre-commit`,
+      );
+    }
+  }
+
+  if (entry.parallel !== undefined && typeof entry.parallel !== "boolean") {
+    report(
+      [...path, "parallel"],
+      `hooks.${hookName}.parallel must be true or false`,
+    );
+  }
+  if (entry.fail_fast !== undefined && typeof entry.fail_fast !== "boolean") {
+    report(
+      [...path, "fail_fast"],
+      `hooks.${hookName}.fail_fast must be true or false`,
+    );
+  }
+  if (entry.concurrency !== undefined) {
+    if (!Number.isInteger(entry.concurrency) || entry.concurrency < 1) {
+      report(
+        [...path, "concurrency"],
+        `hooks.${hookName}.concurrency must be a positive integer`,
+      );
+    } else if (!entry.parallel) {
+      report(
+        [...path, "concurrency"],
+        `hooks.${hookName}.concurrency requires parallel: true`,
+      );
+    }
+  }
+
+  validateExecutionOptions(
+    entry,
+    path,
+    (key) => `hooks.${hookName}.${key}`,
+    report,
+  );
+
+  for (const key of ["merge", "remove"] as const) {
+    if (entry[key] !== undefined && !extending) {
+      report(
+        [...path, key],
+        `hooks.${hookName}.${key} only applies to configurations with extends`,
+      );
+    }
+  }
+  if (
+    entry.merge !== undefined && entry.merge !== "append" &&
+    entry.merge !== "replace"
+  ) {
+    report(
+      [...path, "merge"],
+      `hooks.${hookName}.merge must be "append" or "replace"`,
+    );
+  }
+  if (entry.remove !== undefined) {
+    if (
+      !Array.isArray(entry.remove) ||
+      entry.remove.some((item) => typeof item !== "string" || item === "")
+    ) {
+      report(
+        [...path, "remove"],
+        `hooks.${hookName}.remove must be a list of command ids or commands`,
+      );
+    } else if (entry.merge === "replace") {
+      report(
+        [...path, "remove"],
+        `hooks.${hookName}.remove has no effect with merge: replace`,
+      );
+    }
+    // A hook may only remove inherited commands
+    if (entry.commands === undefined) return [];
+  }
+
+  if (!Array.isArray(entry.commands)) {
+    report(
+      entry.commands === undefined ? path : [...path, "commands"],
+      `hooks.${hookName}.commands must be an array of commands`,
+    );
+    return undefined;
+  }
+
+  return entry.commands;
+}
+
+/**
+ * Validate the object form of a command
+ */
+function validateCommandConfig(
+  hookName: string,
+  command: CommandConfig,
+  path: ConfigPath,
+  report: Report,
+): void {
+  for (const key of Object.keys(command)) {
+    if (!COMMAND_KEYS.includes(key)) {
+      report(
+        [...path, key],
+        LEGACY_COMMAND_KEYS.includes(key)
+          ? `"${key}" in hooks.${hookName} is from the v0.2.x format; run the migrate command to convert it`
+          : `Unknown key "${key}" in hooks.${hookName} command (allowed: ${
+            COMMAND_KEYS.join(", ")
+          })`,
+      );
+    }
+  }
+
+  if (typeof command.run !== "string" || command.run.trim() === "") {
+    report(
+      command.run === undefined ? path : [...path, "run"],
+      `Each command object in hooks.${hookName} needs a non-empty "run" string`,
+    );
+  }
+
+  for (const key of ["files", "exclude"] as const) {
+    const value = command[key];
+    if (value === undefined) continue;
+    const patterns = Array.isArray(value) ? value : [value];
+    if (
+      patterns.length === 0 ||
+      !patterns.every((p) => typeof p === "string" && p.trim() !== "")
+    ) {
+      report(
+        [...path, key],
+        `hooks.${hookName} "${command.run}": ${key} must be a glob pattern or a non-empty list of glob patterns`,
+      );
+    }
+  }
+
+  for (const key of ["pass_filenames", "stdin"] as const) {
+    if (command[key] !== undefined && typeof command[key] !== "boolean") {
+      report(
+        [...path, key],
+        `hooks.${hookName} "${command.run}": ${key} must be true or false`,
+      );
+    }
+  }
+
+  validateExecutionOptions(
+    command,
+    path,
+    (key) => `hooks.${hookName} "${command.run}": ${key}`,
+    report,
+  );
+
+  if (
+    command.id !== undefined &&
+    (typeof command.id !== "string" || !ID_PATTERN.test(command.id))
+  ) {
+    report(
+      [...path, "id"],
+      `hooks.${hookName} "${command.run}": id must only contain letters, digits, "-", "_" and "."`,
+    );
+  }
+
+  if (command.needs !== undefined) {
+    const needs = Array.isArray(command.needs)
+      ? command.needs
+      : [command.needs];
+    if (!needs.every((id) => typeof id === "string")) {
+      report(
+        [...path, "needs"],
+        `hooks.${hookName} "${command.run}": needs must be a command id or a list of command ids`,
+      );
+    }
+  }
+}
+
+/**
+ * Validate `cwd`, `env` and `timeout` of a hook or command
+ */
+function validateExecutionOptions(
+  options: Pick<CommandConfig, "cwd" | "env" | "timeout">,
+  path: ConfigPath,
+  label: (key: string) => string,
+  report: Report,
+): void {
+  const { cwd, env, timeout } = options;
+  if (
+    cwd !== undefined &&
+    (typeof cwd !== "string" || cwd.trim() === "" || cwd.startsWith("/"))
+  ) {
+    report(
+      [...path, "cwd"],
+      `${label("cwd")} must be a path relative to the repository root`,
+    );
+  }
+
+  if (env !== undefined) {
+    if (typeof env !== "object" || env === null || Array.isArray(env)) {
+      report(
+        [...path, "env"],
+        `${label("env")} must map variable names to values`,
+      );
+    } else {
+      for (const [name, value] of Object.entries(env)) {
+        if (!ENV_NAME_PATTERN.test(name)) {
+          report(
+            [...path, "env", name],
+            `${label("env")}: invalid variable name "${name}"`,
+          );
+        } else if (!["string", "number", "boolean"].includes(typeof value)) {
+          report(
+            [...path, "env", name],
+            `${label("env")}: ${name} must be a string, number or boolean`,
+          );
+        }
+      }
+    }
+  }
+
+  if (timeout !== undefined && parseTimeout(timeout) === undefined) {
+    report(
+      [...path, "timeout"],
+      `${
+        label("timeout")
+      } must be a positive number of seconds or a duration like "90s", "5m" or "1h"`,
+    );
+  }
+}
+
+/**
+ * Convert a timeout to seconds
+ *
+ * @param timeout - Seconds, or a duration like `"90s"`, `"5m"` or `"1h"`
+ * @returns The timeout in seconds, or undefined if it is not valid
+ *
+ * @example
+ * ```ts
+ * import { parseTimeout } from "@theswanfactory/deno-hooks";
+ *
+ * parseTimeout("5m"); // 300
+ * ```
+ */
+export function parseTimeout(timeout: number | string): number | undefined {
+  if (typeof timeout === "number") {
+    return Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+  }
+  const match = typeof timeout === "string"
+    ? timeout.match(/^([0-9]+(?:\.[0-9]+)?)(s|m|h)$/)
+    : null;
+  if (!match) return undefined;
+  const seconds = Number(match[1]) * { s: 1, m: 60, h: 3600 }[match[2]]!;
+  return seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Check that commands only use the arguments and stdin the hook receives
+ */
+function validateHookInputs(
+  hookName: string,
+  commands: CommandConfig[],
+  path: ConfigPath,
+  report: Report,
+): void {
+  for (const [index, command] of commands.entries()) {
+    const problem = checkPlaceholders(hookName, command.run);
+    if (problem) {
+      report(
+        [...path, index],
+        `hooks.${hookName} "${command.run}": ${problem}`,
+      );
+    }
+    if (command.pass_filenames && findPlaceholders(command.run).length > 0) {
+      report(
+        [...path, index],
+        `hooks.${hookName} "${command.run}": placeholders cannot be combined with pass_filenames`,
+      );
+    }
+  }
+
+  const readers = [...commands.entries()].filter(([, command]) =>
+    command.stdin
+  );
+  if (readers.length === 0) return;
+  const [firstIndex, first] = readers[0];
+  if (!getGitHookSpec(hookName).stdin) {
+    report(
+      [...path, firstIndex, "stdin"],
+      `hooks.${hookName} "${first.run}": stdin is not available, git writes nothing to ${hookName}'s stdin`,
+    );
+    return;
+  }
+  if (readers.length > 1) {
+    report(
+      [...path, readers[1][0], "stdin"],
+      `Only one command in hooks.${hookName} can read stdin, found ${readers.length}`,
+    );
+  }
+  for (const [index, command] of readers) {
+    if (command.pass_filenames) {
+      report(
+        [...path, index, "stdin"],
+        `hooks.${hookName} "${command.run}": stdin cannot be combined with pass_filenames`,
+      );
+    }
+  }
+}
+
+/**
+ * Check that command ids are unique and every `needs` can be satisfied
+ */
+function validateDependencies(
+  hookName: string,
+  commands: CommandConfig[],
+  path: ConfigPath,
+  report: Report,
+): void {
+  const ids = new Set<string>();
+  for (const [index, { id }] of commands.entries()) {
+    if (id === undefined) continue;
+    if (ids.has(id)) {
+      report(
+        [...path, index, "id"],
+        `Duplicate command id "${id}" in hooks.${hookName}`,
+      );
+    }
+    ids.add(id);
+  }
+
+  let satisfiable = true;
+  for (const [index, command] of commands.entries()) {
+    for (const need of getNeeds(command)) {
+      if (!ids.has(need)) {
+        satisfiable = false;
+        report(
+          [...path, index, "needs"],
+          `hooks.${hookName} "${command.run}" needs unknown command id "${need}"`,
         );
       }
     }
   }
+
+  if (satisfiable) {
+    try {
+      planCommandWaves(commands, hookName);
+    } catch (error) {
+      report(path, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Names of the configured hooks that are installed into the hooks directory
+ *
+ * Hooks listed in `custom_hooks` are left out: git never runs them, they
+ * are only run explicitly with `run <hook>`.
+ *
+ * @param config - The loaded configuration
+ * @returns Hook names in configuration order
+ */
+export function getInstallableHooks(config: Config): string[] {
+  const custom = config.custom_hooks ?? [];
+  return Object.keys(config.hooks).filter((name) => !custom.includes(name));
 }
 
 /**
@@ -115,6 +1383,373 @@ function validateConfig(config: Config): void {
  * console.log(`Found ${commands.length} pre-commit commands`);
  * ```
  */
-export function getHooksForTrigger(config: Config, hookName: string): string[] {
-  return config.hooks[hookName] || [];
+export function getHooksForTrigger(
+  config: Config,
+  hookName: string,
+): HookCommand[] {
+  return getHookConfig(config, hookName).commands;
+}
+
+/**
+ * Get a hook's commands and options for a specific git hook trigger
+ *
+ * @param config - The loaded configuration
+ * @param hookName - The git hook trigger name (e.g., "pre-commit")
+ * @returns The hook in its object form (no commands if not configured)
+ */
+export function getHookConfig(config: Config, hookName: string): HookConfig {
+  return normalizeHook(config.hooks[hookName] ?? []);
+}
+
+/**
+ * Convert a hook entry to its object form
+ *
+ * @param entry - A list of commands or a {@linkcode HookConfig}
+ * @returns The hook as a {@linkcode HookConfig}
+ */
+export function normalizeHook(entry: HookEntry): HookConfig {
+  return Array.isArray(entry) ? { commands: entry } : entry;
+}
+
+/**
+ * Convert a command entry to its object form, so a plain command string
+ * becomes a {@linkcode CommandConfig} with only `run` set
+ *
+ * @param command - A plain command string or a {@linkcode CommandConfig}
+ * @returns The command as a {@linkcode CommandConfig}
+ *
+ * @example
+ * ```ts
+ * import { normalizeCommand } from "@theswanfactory/deno-hooks";
+ *
+ * normalizeCommand("deno task lint"); // { run: "deno task lint" }
+ * ```
+ */
+export function normalizeCommand(command: HookCommand): CommandConfig {
+  return typeof command === "string" ? { run: command } : command;
+}
+
+/**
+ * Apply a hook's `cwd`, `env` and `timeout` defaults to one of its commands
+ *
+ * The command's own `cwd` and `timeout` win; `env` is merged, with the
+ * command's variables taking precedence.
+ *
+ * @param hook - The hook in its object form
+ * @param command - One of its commands
+ * @returns The command with the effective options
+ */
+export function applyHookDefaults(
+  hook: HookConfig,
+  command: HookCommand,
+): CommandConfig {
+  const resolved = { ...normalizeCommand(command) };
+  const cwd = resolved.cwd ?? hook.cwd;
+  const timeout = resolved.timeout ?? hook.timeout;
+  if (cwd !== undefined) resolved.cwd = cwd;
+  if (timeout !== undefined) resolved.timeout = timeout;
+  if (hook.env !== undefined || resolved.env !== undefined) {
+    resolved.env = { ...hook.env, ...resolved.env };
+  }
+  return resolved;
+}
+
+/**
+ * Merge a configuration onto one it extends
+ *
+ * - hooks only in one of them are kept as they are
+ * - for hooks in both, the commands are appended to the inherited ones
+ *   (after dropping those listed in `remove`), or replace them with
+ *   `merge: "replace"`; hook options override the inherited ones, except
+ *   `env`, which is merged
+ * - `commit_msg` rules override the inherited ones one by one,
+ *   `custom_hooks` are combined and `packages` replaces the inherited list
+ *
+ * @param base - The extended configuration
+ * @param override - The extending configuration
+ * @returns The merged configuration, without `extends`
+ */
+export function mergeConfigs(base: Config, override: Config): Config {
+  const hooks = { ...base.hooks };
+  for (const [hookName, entry] of Object.entries(override.hooks ?? {})) {
+    const { merge, remove, commands = [], ...options } = normalizeHook(entry);
+    const inherited = base.hooks[hookName] === undefined
+      ? { commands: [] }
+      : normalizeHook(base.hooks[hookName]);
+    const kept = merge === "replace"
+      ? []
+      : inherited.commands.filter((command) =>
+        !remove?.some((removed) => matchesCommand(command, removed))
+      );
+
+    const merged: HookConfig = {
+      ...inherited,
+      ...options,
+      commands: [...kept, ...commands],
+    };
+    if (inherited.env !== undefined || options.env !== undefined) {
+      merged.env = { ...inherited.env, ...options.env };
+    }
+    hooks[hookName] = Object.keys(merged).length === 1
+      ? merged.commands
+      : merged;
+  }
+
+  const { extends: _, ...rest } = override;
+  const merged: Config = { ...base, ...rest, hooks };
+  if (base.commit_msg !== undefined || override.commit_msg !== undefined) {
+    merged.commit_msg = { ...base.commit_msg, ...override.commit_msg };
+  }
+  const customHooks = [
+    ...new Set([...base.custom_hooks ?? [], ...override.custom_hooks ?? []]),
+  ];
+  if (customHooks.length > 0) merged.custom_hooks = customHooks;
+  return merged;
+}
+
+/**
+ * Whether a command is the one a `remove` entry refers to
+ */
+function matchesCommand(command: HookCommand, removed: string): boolean {
+  const { id, run } = normalizeCommand(command);
+  return id === removed || run === removed;
+}
+
+/**
+ * Find `remove` entries that match none of the inherited commands
+ */
+function findUnmatchedRemovals(base: Config, override: Config): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  for (const [hookName, entry] of Object.entries(override.hooks ?? {})) {
+    const { remove = [] } = normalizeHook(entry);
+    const inherited = getHookConfig(base, hookName).commands;
+    for (const [index, removed] of remove.entries()) {
+      if (!inherited.some((command) => matchesCommand(command, removed))) {
+        issues.push({
+          path: ["hooks", hookName, "remove", index],
+          message:
+            `hooks.${hookName}.remove: "${removed}" matches no inherited command`,
+          severity: "error",
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Merge a package's hooks into the configuration
+ *
+ * Package commands follow the root hook's commands. The merged hook stashes,
+ * runs in parallel or keeps going after failures if any of its
+ * configurations asks for it, with the lowest `concurrency` given.
+ *
+ * @param config - The configuration so far
+ * @param dir - The package directory, relative to the repository root
+ * @param packageConfig - The package's own configuration
+ * @returns A new configuration with the package's commands added
+ */
+export function mergePackageConfig(
+  config: Config,
+  dir: string,
+  packageConfig: Config,
+): Config {
+  const hooks = { ...config.hooks };
+  for (const [hookName, entry] of Object.entries(packageConfig.hooks)) {
+    const hook = normalizeHook(entry);
+    const existing = getHookConfig(config, hookName);
+    const merged: HookConfig = {
+      ...existing,
+      commands: [
+        ...existing.commands,
+        ...hook.commands.map((command) =>
+          scopeToPackage(hookName, dir, applyHookDefaults(hook, command))
+        ),
+      ],
+    };
+    if (hook.stash) merged.stash = true;
+    if (hook.parallel) merged.parallel = true;
+    if (hook.fail_fast === false) merged.fail_fast = false;
+    const concurrency = [existing.concurrency, hook.concurrency]
+      .filter((value) => value !== undefined);
+    if (concurrency.length > 0) merged.concurrency = Math.min(...concurrency);
+    hooks[hookName] = merged;
+  }
+
+  const customHooks = [
+    ...new Set([
+      ...config.custom_hooks ?? [],
+      ...packageConfig.custom_hooks ?? [],
+    ]),
+  ];
+  return {
+    ...config,
+    hooks,
+    ...(customHooks.length > 0 ? { custom_hooks: customHooks } : {}),
+  };
+}
+
+/**
+ * Adapt a package's command to the repository root
+ *
+ * - `cwd` becomes relative to the root, defaulting to the package directory
+ * - `files` and `exclude` globs only match inside the package
+ * - commands without `files` that filter or receive files, and all commands
+ *   of hooks that know which files changed (commits and pre-push), only
+ *   see files inside the package and are skipped when none changed
+ * - `id` and `needs` are prefixed with the package directory, so ids of
+ *   different packages do not clash
+ *
+ * @param hookName - The git hook name (e.g., "pre-commit")
+ * @param dir - The package directory, relative to the repository root
+ * @param command - The command, with its hook's defaults applied
+ * @returns The command as it runs from the repository root
+ */
+export function scopeToPackage(
+  hookName: string,
+  dir: string,
+  command: CommandConfig,
+): CommandConfig {
+  const scoped: CommandConfig = {
+    ...command,
+    cwd: command.cwd === undefined
+      ? dir
+      : normalizePackageDir(`${dir}/${command.cwd}`),
+  };
+  const prefix = (globs: string | string[]) =>
+    (Array.isArray(globs) ? globs : [globs]).map((glob) => {
+      const relative = glob.replace(/^\.?\//, "");
+      // Globs without "/" match in any directory of the package
+      return relative.includes("/")
+        ? `${dir}/${relative}`
+        : `${dir}/**/${relative}`;
+    });
+
+  if (command.files !== undefined) {
+    scoped.files = prefix(command.files);
+  } else if (usesFiles(command) || CHANGED_FILES_HOOKS.includes(hookName)) {
+    scoped.files = `${dir}/**`;
+  }
+  if (command.exclude !== undefined) scoped.exclude = prefix(command.exclude);
+  if (command.id !== undefined) scoped.id = `${dir}/${command.id}`;
+  if (command.needs !== undefined) {
+    scoped.needs = getNeeds(command).map((id) => `${dir}/${id}`);
+  }
+  return scoped;
+}
+
+/**
+ * Describe a hook entry in one line for console output
+ *
+ * @param command - A plain command string or a {@linkcode CommandConfig}
+ * @returns The command, followed by its file filters if any
+ */
+export function describeCommand(command: HookCommand): string {
+  const normalized = normalizeCommand(command);
+  const { run, files, exclude, pass_filenames } = normalized;
+  const details: string[] = [];
+  if (normalized.id !== undefined) details.push(`id: ${normalized.id}`);
+  const needs = getNeeds(normalized);
+  if (needs.length > 0) details.push(`needs: ${needs.join(", ")}`);
+  if (files !== undefined) details.push(`files: ${[files].flat().join(", ")}`);
+  if (exclude !== undefined) {
+    details.push(`exclude: ${[exclude].flat().join(", ")}`);
+  }
+  if (pass_filenames) details.push("pass filenames");
+  if (normalized.stdin) details.push("stdin");
+  if (normalized.cwd !== undefined) details.push(`cwd: ${normalized.cwd}`);
+  if (normalized.env !== undefined && Object.keys(normalized.env).length > 0) {
+    details.push(`env: ${Object.keys(normalized.env).join(", ")}`);
+  }
+  if (normalized.timeout !== undefined) {
+    details.push(`timeout: ${normalized.timeout}`);
+  }
+  return details.length > 0 ? `${run} (${details.join("; ")})` : run;
+}
+
+/**
+ * Ids a command depends on, as a list
+ */
+function getNeeds(command: CommandConfig): string[] {
+  if (command.needs === undefined) return [];
+  return Array.isArray(command.needs) ? command.needs : [command.needs];
+}
+
+/**
+ * Find the commands each command needs
+ *
+ * @param commands - A hook's commands
+ * @returns For each command, the indices of the commands it needs
+ */
+export function commandDependencies(commands: CommandConfig[]): number[][] {
+  return commands.map((command) =>
+    getNeeds(command).map((need) => commands.findIndex(({ id }) => id === need))
+      .filter((index) => index !== -1)
+  );
+}
+
+/**
+ * Group commands into waves that respect their `needs`
+ *
+ * Every command lands in the first wave after all the commands it needs.
+ * Within a wave, commands keep their configuration order. Running the waves
+ * one after another - each wave sequentially or in parallel - satisfies all
+ * dependencies.
+ *
+ * @param commands - The hook's commands in configuration order
+ * @param hookName - Used in error messages
+ * @returns Waves of indices into `commands`
+ * @throws {Error} If the dependencies contain a cycle
+ *
+ * @example
+ * ```ts
+ * import { planCommandWaves } from "@theswanfactory/deno-hooks";
+ *
+ * planCommandWaves([
+ *   { run: "deno task build", id: "build" },
+ *   { run: "deno task test", needs: "build" },
+ *   { run: "deno task lint" },
+ * ]); // [[0, 2], [1]]
+ * ```
+ */
+export function planCommandWaves(
+  commands: CommandConfig[],
+  hookName = "hook",
+): number[][] {
+  const indexById = new Map<string, number>();
+  commands.forEach(({ id }, index) => {
+    if (id !== undefined) indexById.set(id, index);
+  });
+
+  const levels: number[] = [];
+  const visiting = new Set<number>();
+  const levelOf = (index: number, path: string[]): number => {
+    if (levels[index] !== undefined) return levels[index];
+    const label = commands[index].id ?? commands[index].run;
+    if (visiting.has(index)) {
+      throw new Error(
+        `Dependency cycle in hooks.${hookName}: ${
+          [...path, label].join(" -> ")
+        }`,
+      );
+    }
+    visiting.add(index);
+    let level = 0;
+    for (const need of getNeeds(commands[index])) {
+      const dependency = indexById.get(need);
+      if (dependency !== undefined) {
+        level = Math.max(level, levelOf(dependency, [...path, label]) + 1);
+      }
+    }
+    visiting.delete(index);
+    levels[index] = level;
+    return level;
+  };
+
+  const waves: number[][] = [];
+  commands.forEach((_, index) => {
+    const level = levelOf(index, []);
+    (waves[level] ??= []).push(index);
+  });
+  return waves.filter((wave) => wave !== undefined);
 }
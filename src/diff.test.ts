@@ -0,0 +1,51 @@
+/**
+ * Tests for unifiedDiff
+ */
+
+import { expect } from "@std/expect";
+import { unifiedDiff } from "./diff.ts";
+
+const LABELS = { oldLabel: "a/hook", newLabel: "b/hook" };
+
+Deno.test("unifiedDiff - returns nothing for equal texts", () => {
+  expect(unifiedDiff("a\nb\n", "a\nb\n", LABELS)).toBe("");
+});
+
+Deno.test("unifiedDiff - splits distant changes into hunks", () => {
+  const lines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+  const changed = lines.map((line) =>
+    line === "line 2" ? "line two" : line === "line 18" ? "" : line
+  ).filter((line) => line !== "");
+
+  expect(unifiedDiff(
+    `${lines.join("\n")}\n`,
+    `${changed.join("\n")}\nline 21\n`,
+    LABELS,
+  )).toBe(
+    [
+      "--- a/hook",
+      "+++ b/hook",
+      "@@ -1,5 +1,5 @@",
+      " line 1",
+      "-line 2",
+      "+line two",
+      " line 3",
+      " line 4",
+      " line 5",
+      "@@ -15,6 +15,6 @@",
+      " line 15",
+      " line 16",
+      " line 17",
+      "-line 18",
+      " line 19",
+      " line 20",
+      "+line 21",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("unifiedDiff - diffs a new file against nothing", () => {
+  expect(unifiedDiff("", "#!/bin/sh\n", { ...LABELS, oldLabel: "/dev/null" }))
+    .toBe("--- /dev/null\n+++ b/hook\n@@ -0,0 +1,1 @@\n+#!/bin/sh\n");
+});
@@ -0,0 +1,151 @@
+/**
+ * Line-based unified diffs, used to preview what `install --dry-run` would
+ * change in the hooks directory
+ *
+ * @module
+ */
+
+/**
+ * Options for {@linkcode unifiedDiff}
+ */
+export interface UnifiedDiffOptions {
+  /** Name of the old file in the `---` header */
+  oldLabel: string;
+  /** Name of the new file in the `+++` header */
+  newLabel: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+/**
+ * A line of an edit script: kept (` `), removed (`-`) or added (`+`)
+ */
+interface Edit {
+  op: " " | "-" | "+";
+  line: string;
+}
+
+/**
+ * Compute a unified diff between two texts
+ *
+ * @param oldText - The current content
+ * @param newText - The content it would be replaced with
+ * @param options - File labels and context size
+ * @returns The diff, or an empty string if the texts are equal
+ *
+ * @example
+ * ```ts
+ * import { unifiedDiff } from "./diff.ts";
+ *
+ * unifiedDiff("a\nb\n", "a\nc\n", { oldLabel: "old", newLabel: "new" });
+ * // --- old
+ * // +++ new
+ * // @@ -1,2 +1,2 @@
+ * //  a
+ * // -b
+ * // +c
+ * ```
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions,
+): string {
+  if (oldText === newText) return "";
+  const { context = 3 } = options;
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+
+  const changes = edits.flatMap((edit, index) =>
+    edit.op === " " ? [] : [index]
+  );
+  const output = [`--- ${options.oldLabel}`, `+++ ${options.newLabel}`];
+  let position = 0;
+  while (position < changes.length) {
+    // Extend the hunk while the next change is close enough to share context
+    let last = position;
+    while (
+      last + 1 < changes.length &&
+      changes[last + 1] - changes[last] <= 2 * context + 1
+    ) {
+      last++;
+    }
+    const start = Math.max(0, changes[position] - context);
+    const end = Math.min(edits.length, changes[last] + context + 1);
+    output.push(hunkHeader(edits, start, end));
+    for (const { op, line } of edits.slice(start, end)) {
+      output.push(`${op}${line}`);
+    }
+    position = last + 1;
+  }
+  return `${output.join("\n")}\n`;
+}
+
+/**
+ * Split a text into lines, without the empty string after a final newline
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line lists, via their longest common
+ * subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): Edit[] {
+  const rows = oldLines.length + 1;
+  const columns = newLines.length + 1;
+  // lengths[i * columns + j]: LCS length of oldLines[i..] and newLines[j..]
+  const lengths = new Uint32Array(rows * columns);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(
+          lengths[(i + 1) * columns + j],
+          lengths[i * columns + j + 1],
+        );
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (
+      i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]
+    ) {
+      edits.push({ op: " ", line: oldLines[i] });
+      i++;
+      j++;
+    } else if (
+      j === newLines.length ||
+      (i < oldLines.length &&
+        lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])
+    ) {
+      edits.push({ op: "-", line: oldLines[i] });
+      i++;
+    } else {
+      edits.push({ op: "+", line: newLines[j] });
+      j++;
+    }
+  }
+  return edits;
+}
+
+/**
+ * The `@@ -a,b +c,d @@` line for the edits in `[start, end)`
+ */
+function hunkHeader(edits: Edit[], start: number, end: number): string {
+  const before = edits.slice(0, start);
+  const hunk = edits.slice(start, end);
+  const range = (skip: Edit["op"]) => {
+    const offset = before.filter(({ op }) => op !== skip).length;
+    const length = hunk.filter(({ op }) => op !== skip).length;
+    // An empty range names the line before it, as in GNU diff
+    return `${length === 0 ? offset : offset + 1},${length}`;
+  };
+  return `@@ -${range("+")} +${range("-")} @@`;
+}
@@ -0,0 +1,85 @@
+/**
+ * Read the YAML and JSON documents of deno-hooks and other tools
+ *
+ * Shared by the `migrate` and `import` commands, which read configurations
+ * that have not been validated yet: every value is `unknown` until narrowed
+ * with {@linkcode isRecord} or {@linkcode asRecord}.
+ *
+ * @module
+ */
+
+import { parse as parseYaml } from "@std/yaml";
+
+/**
+ * Parse YAML, or JSON for `.json` files
+ *
+ * @param text - The document
+ * @param file - Its name, for the file type and error messages
+ * @returns The parsed value
+ * @throws {Error} If the document cannot be parsed
+ */
+export function parseDocument(text: string, file: string): unknown {
+  try {
+    return file.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse ${file}: ${message}`);
+  }
+}
+
+/**
+ * Read and parse a document, if it exists
+ *
+ * @param dir - Directory of the file
+ * @param name - File name; `.json` files are read as JSON, others as YAML
+ * @returns The parsed value, or undefined if there is no such file
+ * @throws {Error} If the file cannot be read or parsed
+ */
+export async function readDocument(
+  dir: string,
+  name: string,
+): Promise<unknown> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(`${dir}/${name}`);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+  return parseDocument(text, name);
+}
+
+/**
+ * The first of several files that exists in a directory
+ *
+ * @param dir - Directory to look in
+ * @param names - File names, in order of preference
+ * @returns The name found, if any
+ */
+export async function findFile(
+  dir: string,
+  names: string[],
+): Promise<string | undefined> {
+  for (const name of names) {
+    try {
+      if ((await Deno.stat(`${dir}/${name}`)).isFile) return name;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a value is a plain object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A value as a plain object, or undefined if it is not one
+ */
+export function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return isRecord(value) ? value : undefined;
+}
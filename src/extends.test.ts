@@ -0,0 +1,118 @@
+/**
+ * Tests for configuration inheritance
+ */
+
+import { expect } from "@std/expect";
+import { ConfigError, loadConfig, mergeConfigs } from "./config.ts";
+
+Deno.test("mergeConfigs - appends, replaces and removes commands", () => {
+  const base = {
+    hooks: {
+      "pre-commit": {
+        parallel: true,
+        env: { CI: "1" },
+        commands: [{ run: "deno lint", id: "lint" }, "deno fmt --check"],
+      },
+      "pre-push": ["deno test"],
+    },
+    commit_msg: { types: ["feat", "fix"], require_scope: true },
+  };
+
+  const merged = mergeConfigs(base, {
+    extends: "base.yml",
+    hooks: {
+      "pre-commit": {
+        env: { LEVEL: "debug" },
+        remove: ["lint"],
+        commands: ["deno check"],
+      },
+      "pre-push": { merge: "replace", commands: ["deno test -A"] },
+      "commit-msg": ["lint-commit-msg"],
+    },
+    commit_msg: { require_scope: false },
+  });
+
+  expect(merged).toEqual({
+    hooks: {
+      "pre-commit": {
+        parallel: true,
+        env: { CI: "1", LEVEL: "debug" },
+        commands: ["deno fmt --check", "deno check"],
+      },
+      "pre-push": ["deno test -A"],
+      "commit-msg": ["lint-commit-msg"],
+    },
+    commit_msg: { types: ["feat", "fix"], require_scope: false },
+  });
+});
+
+Deno.test("loadConfig - resolves extends chains of local files", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${root}/shared`);
+    await Deno.writeTextFile(
+      `${root}/shared/base.json`,
+      JSON.stringify({ hooks: { "pre-commit": ["deno lint"] } }),
+    );
+    await Deno.writeTextFile(
+      `${root}/shared/team.yml`,
+      "extends: base.json\nhooks:\n  pre-commit:\n    - deno fmt --check\n",
+    );
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "extends: [./shared/team.yml]\nhooks:\n  pre-push:\n    - deno test\n",
+    );
+
+    expect((await loadConfig(root)).hooks).toEqual({
+      "pre-commit": ["deno lint", "deno fmt --check"],
+      "pre-push": ["deno test"],
+    });
+
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "extends: shared/team.yml\nhooks:\n  pre-commit:\n    remove: [deno test]\n",
+    );
+    const error = await loadConfig(root).catch((e) => e);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.message).toContain(
+      'deno-hooks.yml:4:5: hooks.pre-commit.remove: "deno test" matches no inherited command',
+    );
+
+    await Deno.writeTextFile(
+      `${root}/shared/base.json`,
+      JSON.stringify({ extends: "team.yml", hooks: {} }),
+    );
+    await expect(loadConfig(root)).rejects.toThrow("Circular extends");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("loadConfig - caches remote configurations for offline use", async () => {
+  const root = await Deno.makeTempDir();
+  const cache = await Deno.makeTempDir();
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    () => new Response("hooks:\n  pre-commit:\n    - deno lint\n"),
+  );
+  const url = `http://127.0.0.1:${server.addr.port}/deno-hooks.yml`;
+  Deno.env.set("DENO_HOOKS_CACHE_DIR", cache);
+  try {
+    await Deno.writeTextFile(`${root}/deno-hooks.yml`, `extends: ${url}\n`);
+
+    expect((await loadConfig(root)).hooks).toEqual({
+      "pre-commit": ["deno lint"],
+    });
+
+    // The server is gone: the cached copy is used
+    await server.shutdown();
+    expect((await loadConfig(root)).hooks).toEqual({
+      "pre-commit": ["deno lint"],
+    });
+  } finally {
+    Deno.env.delete("DENO_HOOKS_CACHE_DIR");
+    await server.shutdown();
+    await Deno.remove(root, { recursive: true });
+    await Deno.remove(cache, { recursive: true });
+  }
+});
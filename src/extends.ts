@@ -0,0 +1,253 @@
+/**
+ * Fetch configurations referenced by `extends`
+ *
+ * A configuration can extend local files (relative to the file that refers
+ * to them), `https:` URLs and files published in JSR packages:
+ *
+ * ```yaml
+ * extends:
+ *   - ../shared/deno-hooks.yml
+ *   - https://raw.githubusercontent.com/acme/hooks/v2/deno-hooks.yml
+ *   - jsr:@acme/hooks@1.4.0/deno-hooks.yml
+ * ```
+ *
+ * Remote configurations are cached, so hooks still install offline. Files of
+ * a pinned JSR version never change and are read from the cache without
+ * going to the network; everything else is fetched again and only falls back
+ * to the cache when the network is unavailable.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import { dirname, isAbsolute, resolve } from "@std/path";
+
+/**
+ * A configuration referenced by `extends`
+ */
+export interface ConfigSource {
+  /** Where it was read from: a file path or URL */
+  location: string;
+  /** The file's content */
+  text: string;
+  /** Whether the content came from the offline cache */
+  cached: boolean;
+}
+
+/**
+ * File read when a JSR specifier has no path
+ */
+const DEFAULT_JSR_FILE = "/deno-hooks.yml";
+
+/**
+ * How long to wait for a remote configuration
+ */
+const FETCH_TIMEOUT_MS = 10_000;
+
+/**
+ * Read a configuration referenced by `extends`
+ *
+ * @param specifier - The reference as written: a path, URL or `jsr:`
+ *   specifier
+ * @param from - Location of the configuration containing the reference;
+ *   relative references are resolved against it
+ * @returns The configuration's location and content
+ * @throws {Error} If the file cannot be read or fetched and is not cached
+ */
+export async function readConfigSource(
+  specifier: string,
+  from: string,
+): Promise<ConfigSource> {
+  if (specifier.startsWith("jsr:")) {
+    return await readJsrSource(specifier);
+  }
+  if (isUrl(specifier) || isUrl(from)) {
+    const url = new URL(specifier, isUrl(from) ? from : undefined).href;
+    return await fetchCached(url, url, false);
+  }
+
+  const location = isAbsolute(specifier)
+    ? specifier
+    : resolve(dirname(from), specifier);
+  try {
+    return { location, text: await Deno.readTextFile(location), cached: false };
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`Cannot extend ${specifier}: ${location} does not exist`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a location is an http(s) URL
+ */
+function isUrl(location: string): boolean {
+  return /^https?:\/\//.test(location);
+}
+
+/**
+ * Read a file from a JSR package: `jsr:@scope/name[@version][/path]`
+ *
+ * Without a version the latest one is used; ranges are not supported, so the
+ * same specifier always means the same file.
+ */
+async function readJsrSource(specifier: string): Promise<ConfigSource> {
+  const match = specifier.match(
+    /^jsr:\/?(@[^/@]+\/[^/@]+)(?:@([^/]+))?(\/.*)?$/,
+  );
+  if (!match) {
+    throw new Error(
+      `Invalid JSR specifier "${specifier}", expected jsr:@scope/name@version/path`,
+    );
+  }
+  const [, name, version, path = DEFAULT_JSR_FILE] = match;
+  if (version !== undefined && !/^\d+\.\d+\.\d+(-[\w.]+)?$/.test(version)) {
+    throw new Error(
+      `Cannot extend ${specifier}: pin an exact version like ${name}@1.2.3`,
+    );
+  }
+
+  if (version !== undefined) {
+    const url = `https://jsr.io/${name}/${version}${path}`;
+    return await fetchCached(url, url, true);
+  }
+
+  let latest: string;
+  try {
+    const meta = await fetchText(`https://jsr.io/${name}/meta.json`);
+    latest = JSON.parse(meta).latest;
+  } catch (error) {
+    // Offline: use whatever version was cached last
+    if (!(error instanceof TypeError) && !isTimeout(error)) throw error;
+    const cached = await readCache(specifier);
+    if (cached === undefined) throw fetchError(specifier, error);
+    return { ...cached, cached: true };
+  }
+  return await fetchCached(
+    specifier,
+    `https://jsr.io/${name}/${latest}${path}`,
+    false,
+  );
+}
+
+/**
+ * Fetch a URL, falling back to (or, for immutable files, starting with) the
+ * cached copy stored under `key`
+ */
+async function fetchCached(
+  key: string,
+  url: string,
+  immutable: boolean,
+): Promise<ConfigSource> {
+  if (immutable) {
+    const cached = await readCache(key);
+    if (cached?.location === url) return { ...cached, cached: true };
+  }
+
+  let text: string;
+  try {
+    text = await fetchText(url);
+  } catch (error) {
+    // Network errors are TypeErrors; HTTP errors are not worth retrying
+    if (!(error instanceof TypeError) && !isTimeout(error)) throw error;
+    const cached = await readCache(key);
+    if (cached === undefined) throw fetchError(url, error);
+    return { ...cached, cached: true };
+  }
+
+  await writeCache(key, { location: url, text });
+  return { location: url, text, cached: false };
+}
+
+/**
+ * Fetch a URL as text
+ *
+ * @throws {TypeError} If the network is unavailable
+ * @throws {Error} If the server responds with an error status
+ */
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`,
+    );
+  }
+  return await response.text();
+}
+
+/**
+ * Whether an error is the abort caused by {@linkcode FETCH_TIMEOUT_MS}
+ */
+function isTimeout(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "TimeoutError";
+}
+
+/**
+ * Error for a remote configuration that is neither reachable nor cached
+ */
+function fetchError(location: string, cause: unknown): Error {
+  const message = cause instanceof Error ? cause.message : String(cause);
+  return new Error(
+    `Cannot fetch ${location} and no cached copy exists: ${message}`,
+  );
+}
+
+/**
+ * Directory for cached remote configurations
+ *
+ * `DENO_HOOKS_CACHE_DIR` if set, otherwise the user's cache directory.
+ * Undefined if there is none, which disables caching.
+ */
+function cacheDir(): string | undefined {
+  const explicit = Deno.env.get("DENO_HOOKS_CACHE_DIR");
+  if (explicit) return explicit;
+  const base = Deno.env.get("XDG_CACHE_HOME") ??
+    (Deno.env.get("HOME") && `${Deno.env.get("HOME")}/.cache`) ??
+    Deno.env.get("LOCALAPPDATA");
+  return base ? `${base}/deno-hooks/extends` : undefined;
+}
+
+/**
+ * Cache file for a key
+ */
+function cachePath(key: string): string | undefined {
+  const dir = cacheDir();
+  if (dir === undefined) return undefined;
+  return `${dir}/${createHash("sha256").update(key).digest("hex")}.json`;
+}
+
+/**
+ * Read a cached configuration
+ */
+async function readCache(
+  key: string,
+): Promise<Omit<ConfigSource, "cached"> | undefined> {
+  const path = cachePath(key);
+  if (path === undefined) return undefined;
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store a configuration for offline use; failures only cost the cache
+ */
+async function writeCache(
+  key: string,
+  source: Omit<ConfigSource, "cached">,
+): Promise<void> {
+  const path = cachePath(key);
+  if (path === undefined) return;
+  try {
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.writeTextFile(path, JSON.stringify(source));
+  } catch {
+    // Read-only home directory or similar
+  }
+}
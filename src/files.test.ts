@@ -0,0 +1,84 @@
+/**
+ * Tests for file filtering
+ */
+
+import { expect } from "@std/expect";
+import {
+  batchFiles,
+  filterFiles,
+  getPushedFiles,
+  globsToRegExpSource,
+} from "./files.ts";
+import { git, withTempRepo } from "./test-utils.ts";
+
+Deno.test("globsToRegExpSource - matches like git pathspecs", () => {
+  const matches = (glob: string | string[], path: string) =>
+    new RegExp(globsToRegExpSource(glob)).test(path);
+
+  expect(matches("*.ts", "mod.ts")).toBe(true);
+  expect(matches("*.ts", "src/deep/mod.ts")).toBe(true);
+  expect(matches("*.ts", "mod.tsx")).toBe(false);
+  expect(matches("*.{ts,tsx}", "src/app.tsx")).toBe(true);
+  expect(matches("src/*.ts", "src/mod.ts")).toBe(true);
+  expect(matches("src/*.ts", "src/deep/mod.ts")).toBe(false);
+  expect(matches("src/**/*.ts", "src/mod.ts")).toBe(true);
+  expect(matches("src/**/*.ts", "src/deep/mod.ts")).toBe(true);
+  expect(matches("src/**", "lib/src/mod.ts")).toBe(false);
+  expect(matches("file?.[jt]s", "file1.js")).toBe(true);
+  expect(matches(["*.md", "*.json"], "deno.json")).toBe(true);
+});
+
+Deno.test("filterFiles - applies files and exclude", () => {
+  const files = ["src/mod.ts", "vendor/x.ts", "README.md"];
+  expect(filterFiles(files, { run: "x", files: "*.ts" })).toEqual([
+    "src/mod.ts",
+    "vendor/x.ts",
+  ]);
+  expect(filterFiles(files, { run: "x", exclude: "vendor/**" })).toEqual([
+    "src/mod.ts",
+    "README.md",
+  ]);
+});
+
+Deno.test("batchFiles - splits long lists", () => {
+  expect(batchFiles([])).toEqual([]);
+  expect(batchFiles(["aaaa", "bbbb", "cccc"], 10)).toEqual([
+    ["aaaa", "bbbb"],
+    ["cccc"],
+  ]);
+});
+
+Deno.test("getPushedFiles - lists files changed by the pushed refs", async () => {
+  await withTempRepo(async (root) => {
+    const commit = async (file: string) => {
+      await Deno.writeTextFile(`${root}/${file}`, file);
+      await git(["add", file], root);
+      await git(["commit", "-q", "--no-verify", "-m", file], root);
+      const { stdout } = await new Deno.Command("git", {
+        args: ["rev-parse", "HEAD"],
+        cwd: root,
+      }).output();
+      return new TextDecoder().decode(stdout).trim();
+    };
+    const first = await commit("a.ts");
+    const second = await commit("b.ts");
+    const zero = "0".repeat(40);
+
+    // Existing branch: only the new commits
+    expect(
+      await getPushedFiles(
+        `refs/heads/main ${second} refs/heads/main ${first}\n`,
+        "origin",
+        root,
+      ),
+    ).toEqual(["b.ts"]);
+    // New branch without remote-tracking refs: every commit; deletions: none
+    expect(
+      await getPushedFiles(
+        `refs/heads/x ${second} refs/heads/x ${zero}\n(delete) ${zero} refs/heads/y ${first}\n`,
+        "origin",
+        root,
+      ),
+    ).toEqual(["a.ts", "b.ts"]);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Staged file discovery and glob matching for per-command file filters
+ *
+ * Globs are compiled to POSIX extended regular expressions that are also
+ * valid JavaScript regular expressions, so the generated shell scripts
+ * (`grep -E`) and {@linkcode runHook} select exactly the same files.
+ *
+ * @module
+ */
+
+import type { CommandConfig } from "./config.ts";
+import type { CommitRange } from "./git.ts";
+
+/**
+ * Maximum combined length of file names passed to one invocation
+ *
+ * Well below the smallest common `ARG_MAX` (32 KiB command lines on
+ * Windows), leaving room for the command itself.
+ */
+const MAX_BATCH_LENGTH = 24_000;
+
+/**
+ * Shell command that lists staged files, one per line, as the generated
+ * scripts see them
+ */
+export const STAGED_FILES_COMMAND =
+  "git -c core.quotePath=false diff --cached --name-only --diff-filter=ACMR";
+
+/**
+ * Shell snippet that lists the files changed by a push, one per line, from
+ * the refs pre-push receives on stdin (saved in `$DENO_HOOKS_STDIN`)
+ *
+ * Existing branches are compared with the remote commit; for new branches
+ * (or a remote commit that is not available locally) the commits not yet on
+ * the remote (`$1`) are listed. Deleted branches change no files.
+ */
+export const PUSHED_FILES_COMMAND =
+  `printf '%s' "$DENO_HOOKS_STDIN" | while read -r deno_hooks_local_ref deno_hooks_local_sha deno_hooks_remote_ref deno_hooks_remote_sha; do
+  case $deno_hooks_local_sha in *[!0]*) ;; *) continue ;; esac
+  case $deno_hooks_remote_sha in
+    *[!0]*) git -c core.quotePath=false diff --name-only --diff-filter=ACMR "$deno_hooks_remote_sha" "$deno_hooks_local_sha" 2>/dev/null && continue ;;
+  esac
+  git -c core.quotePath=false log --format= --name-only --diff-filter=ACMR "$deno_hooks_local_sha" --not --remotes="$1"
+done | sed '/^$/d' | sort -u`;
+
+/**
+ * Hooks that know which files changed: the files staged for the commit, or
+ * for pre-push the files changed by the pushed commits
+ */
+export const CHANGED_FILES_HOOKS: readonly string[] = [
+  "pre-commit",
+  "pre-merge-commit",
+  "prepare-commit-msg",
+  "commit-msg",
+  "pre-push",
+];
+
+/**
+ * Whether a command filters or receives staged files
+ */
+export function usesFiles(command: CommandConfig): boolean {
+  return command.files !== undefined || command.exclude !== undefined ||
+    command.pass_filenames === true;
+}
+
+/**
+ * Compile glob patterns into one regular expression source
+ *
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`. Patterns without a `/`
+ * match the file name in any directory; others are anchored at the
+ * repository root.
+ *
+ * @param patterns - One or more glob patterns
+ * @returns A regular expression source usable with `grep -E` and `RegExp`
+ *
+ * @example
+ * ```ts
+ * new RegExp(globsToRegExpSource("*.ts")).test("src/mod.ts"); // true
+ * ```
+ */
+export function globsToRegExpSource(patterns: string | string[]): string {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  return list.map((pattern) => `(${globToRegExpSource(pattern)})`).join("|");
+}
+
+/**
+ * Compile a single glob pattern into a regular expression source
+ */
+function globToRegExpSource(pattern: string): string {
+  const glob = pattern.replace(/^\.?\//, "");
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        if (glob[i + 2] === "/") {
+          source += "(.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(
+        /\\/g,
+        "\\\\",
+      );
+      source += `[${body}]`;
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else if (".+()|^$\\{}".includes(char)) {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+  }
+
+  return glob.includes("/") ? `^${source}$` : `(^|/)${source}$`;
+}
+
+/**
+ * Select the files a command applies to
+ *
+ * @param files - Candidate file paths relative to the repository root
+ * @param command - Command with optional `files` and `exclude` globs
+ * @returns The files matching `files` (or all, if unset) minus `exclude`
+ */
+export function filterFiles(files: string[], command: CommandConfig): string[] {
+  const include = command.files === undefined
+    ? undefined
+    : new RegExp(globsToRegExpSource(command.files));
+  const exclude = command.exclude === undefined
+    ? undefined
+    : new RegExp(globsToRegExpSource(command.exclude));
+
+  return files.filter((file) =>
+    (!include || include.test(file)) && !(exclude && exclude.test(file))
+  );
+}
+
+/**
+ * Split a file list into batches that fit on a command line
+ *
+ * @param files - Files to pass to a command
+ * @param maxLength - Maximum combined length of one batch
+ * @returns Batches in the original order (empty if there are no files)
+ */
+export function batchFiles(
+  files: string[],
+  maxLength = MAX_BATCH_LENGTH,
+): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const file of files) {
+    if (current.length > 0 && length + file.length + 1 > maxLength) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(file);
+    length += file.length + 1;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * List files staged for commit (added, copied, modified or renamed)
+ *
+ * @param cwd - Directory inside the repository
+ * @returns Paths relative to the repository root
+ * @throws {Error} If git fails (e.g., not in a repository)
+ */
+export async function getStagedFiles(cwd?: string): Promise<string[]> {
+  const command = new Deno.Command("git", {
+    args: ["diff", "--cached", "--name-only", "--diff-filter=ACMR", "-z"],
+    cwd,
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  const { success, stdout, stderr } = await command.output();
+
+  if (!success) {
+    const error = new TextDecoder().decode(stderr);
+    throw new Error(`Failed to list staged files: ${error}`);
+  }
+
+  return new TextDecoder().decode(stdout).split("\0").filter((f) => f !== "");
+}
+
+/**
+ * List files changed by a push (added, copied, modified or renamed)
+ *
+ * Mirrors what the generated pre-push script computes from its stdin.
+ *
+ * @param refs - The lines git writes to pre-push's stdin:
+ *   `<local ref> <local sha> <remote ref> <remote sha>`
+ * @param remote - Name of the remote being pushed to
+ * @param cwd - Directory inside the repository
+ * @returns Paths relative to the repository root, sorted
+ * @throws {Error} If git fails to list the commits of a new branch
+ */
+export async function getPushedFiles(
+  refs: string,
+  remote: string | undefined,
+  cwd?: string,
+): Promise<string[]> {
+  const files = new Set<string>();
+  const git = async (args: string[]) => {
+    const { success, stdout, stderr } = await new Deno.Command("git", {
+      args: ["-c", "core.quotePath=false", ...args],
+      cwd,
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+    return {
+      success,
+      stdout: new TextDecoder().decode(stdout),
+      stderr: new TextDecoder().decode(stderr),
+    };
+  };
+
+  for (const line of refs.split("\n")) {
+    const [, localSha, , remoteSha] = line.trim().split(/\s+/);
+    if (!localSha || !/[^0]/.test(localSha)) continue;
+
+    let output: string | undefined;
+    if (remoteSha && /[^0]/.test(remoteSha)) {
+      const diff = await git([
+        "diff",
+        "--name-only",
+        "--diff-filter=ACMR",
+        remoteSha,
+        localSha,
+      ]);
+      if (diff.success) output = diff.stdout;
+    }
+    if (output === undefined) {
+      const log = await git([
+        "log",
+        "--format=",
+        "--name-only",
+        "--diff-filter=ACMR",
+        localSha,
+        "--not",
+        `--remotes=${remote ?? "*"}`,
+      ]);
+      if (!log.success) {
+        throw new Error(`Failed to list pushed files: ${log.stderr}`);
+      }
+      output = log.stdout;
+    }
+    for (const file of output.split("\n")) {
+      if (file !== "") files.add(file);
+    }
+  }
+
+  return [...files].sort();
+}
+
+/**
+ * List files changed in a commit range (added, copied, modified or renamed)
+ *
+ * Like a pull request, this compares `head` with the commit where it
+ * branched off `base`, so changes made on `base` since then are left out.
+ *
+ * @param range - Base and head of the range
+ * @param cwd - Directory inside the repository
+ * @returns Paths relative to the repository root
+ * @throws {Error} If git cannot resolve the range
+ */
+export async function getRangeFiles(
+  range: CommitRange,
+  cwd?: string,
+): Promise<string[]> {
+  return await listChangedFiles(
+    ["diff", `${range.base}...${range.head}`],
+    cwd,
+  );
+}
+
+/**
+ * List files changed by a single commit (added, copied, modified or
+ * renamed)
+ *
+ * @param sha - The commit
+ * @param cwd - Directory inside the repository
+ * @returns Paths relative to the repository root
+ * @throws {Error} If git cannot find the commit
+ */
+export async function getCommitFiles(
+  sha: string,
+  cwd?: string,
+): Promise<string[]> {
+  return await listChangedFiles(
+    ["diff-tree", "--no-commit-id", "-r", "--root", sha],
+    cwd,
+  );
+}
+
+/**
+ * Run a git diff command listing added, copied, modified or renamed files
+ */
+async function listChangedFiles(
+  args: string[],
+  cwd: string | undefined,
+): Promise<string[]> {
+  const { success, stdout, stderr } = await new Deno.Command("git", {
+    args: [...args, "--name-only", "--diff-filter=ACMR", "-z"],
+    cwd,
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+
+  if (!success) {
+    const error = new TextDecoder().decode(stderr);
+    throw new Error(`Failed to list changed files: ${error}`);
+  }
+
+  return new TextDecoder().decode(stdout).split("\0").filter((f) => f !== "");
+}
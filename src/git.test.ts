@@ -0,0 +1,39 @@
+/**
+ * Tests for git helpers
+ */
+
+import { expect } from "@std/expect";
+import { getHooksDir } from "./git.ts";
+import { git, withTempRepo } from "./test-utils.ts";
+
+Deno.test("getHooksDir - defaults to .git/hooks", async () => {
+  await withTempRepo(async (root) => {
+    const { path, reason } = await getHooksDir(root);
+    expect(path).toBe(`${root}/.git/hooks`);
+    expect(reason).toContain("default");
+  });
+});
+
+Deno.test("getHooksDir - honors core.hooksPath", async () => {
+  await withTempRepo(async (root) => {
+    await git(["config", "core.hooksPath", ".githooks"], root);
+    const { path, reason } = await getHooksDir(root);
+    expect(path).toBe(`${root}/.githooks`);
+    expect(reason).toContain("core.hooksPath");
+  });
+});
+
+Deno.test("getHooksDir - uses shared hooks of linked worktrees", async () => {
+  await withTempRepo(async (root) => {
+    await git(["commit", "-q", "--allow-empty", "-m", "init"], root);
+    const worktree = `${root}-worktree`;
+    await git(["worktree", "add", "-q", worktree], root);
+    try {
+      const { path, reason } = await getHooksDir(worktree);
+      expect(path).toBe(`${root}/.git/hooks`);
+      expect(reason).toContain("worktree");
+    } finally {
+      await Deno.remove(worktree, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Git helpers for deno-hooks
+ */
+
+import { resolve } from "@std/path";
+
+/**
+ * Get the git repository root directory
+ *
+ * @returns Absolute path to the top level of the current working tree
+ * @throws {Error} If not in a git repository
+ */
+export async function getGitRoot(): Promise<string> {
+  const command = new Deno.Command("git", {
+    args: ["rev-parse", "--show-toplevel"],
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  const { success, stdout, stderr } = await command.output();
+
+  if (!success) {
+    const error = new TextDecoder().decode(stderr);
+    throw new Error(`Failed to get git root: ${error}`);
+  }
+
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Resolved location of the hooks directory
+ */
+export interface HooksDir {
+  /** Absolute path of the directory git reads hooks from */
+  path: string;
+  /** Human-readable explanation of why this directory was chosen */
+  reason: string;
+}
+
+/**
+ * Find the directory git actually reads hooks from
+ *
+ * Uses `git rev-parse --git-path hooks`, which honors `core.hooksPath` and
+ * resolves the shared hooks directory of linked worktrees and the
+ * per-module git directory of submodules (where `.git` is a file).
+ *
+ * @param gitRoot - The git repository root directory
+ * @returns The hooks directory and the reason it was chosen
+ * @throws {Error} If git cannot resolve the hooks path
+ */
+export async function getHooksDir(gitRoot: string): Promise<HooksDir> {
+  const hooksPath = await runGit(["rev-parse", "--git-path", "hooks"], gitRoot);
+  if (hooksPath === undefined) {
+    throw new Error("Failed to resolve git hooks directory");
+  }
+  const path = resolve(gitRoot, hooksPath);
+
+  const configured = await runGit(["config", "core.hooksPath"], gitRoot);
+  if (configured) {
+    return { path, reason: `core.hooksPath is set to "${configured}"` };
+  }
+
+  const gitDir = await runGit(
+    ["rev-parse", "--path-format=absolute", "--git-dir"],
+    gitRoot,
+  );
+  const commonDir = await runGit(
+    ["rev-parse", "--path-format=absolute", "--git-common-dir"],
+    gitRoot,
+  );
+  if (gitDir && commonDir && gitDir !== commonDir) {
+    return {
+      path,
+      reason: `linked worktree (hooks are shared with ${commonDir})`,
+    };
+  }
+
+  const dotGit = await Deno.lstat(`${gitRoot}/.git`).catch(() => undefined);
+  if (dotGit?.isFile) {
+    return {
+      path,
+      reason: `.git is a file pointing to ${gitDir ?? "another directory"} ` +
+        "(submodule or separate git directory)",
+    };
+  }
+
+  return { path, reason: "default location inside .git" };
+}
+
+/**
+ * Run a git command and return its trimmed stdout
+ *
+ * @returns The output, or undefined if git exited with an error
+ */
+async function runGit(
+  args: string[],
+  cwd: string,
+): Promise<string | undefined> {
+  const command = new Deno.Command("git", {
+    args,
+    cwd,
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  const { success, stdout } = await command.output();
+  return success ? new TextDecoder().decode(stdout).trim() : undefined;
+}
+
+/**
+ * A commit, as listed by {@linkcode listCommits}
+ */
+export interface CommitInfo {
+  /** Full commit hash */
+  sha: string;
+  /** First line of the message */
+  subject: string;
+  /** Full commit message */
+  message: string;
+}
+
+/**
+ * The two ends of a commit range
+ */
+export interface CommitRange {
+  /** The branch the change is based on, such as `origin/main` */
+  base: string;
+  /** The last commit of the change */
+  head: string;
+}
+
+/**
+ * Split a commit range into its base and head
+ *
+ * Like a pull request, `base..head` and `base...head` both mean the commits
+ * on `head` since it branched off `base`. An empty end stands for `HEAD`.
+ *
+ * @param range - `base..head`, or `base...head`
+ * @returns The base and head revisions
+ * @throws {Error} If the range is not of that form
+ */
+export function parseCommitRange(range: string): CommitRange {
+  const match = range.match(/^(.*?)\.{2,3}(.*)$/);
+  if (!match) {
+    throw new Error(`Invalid commit range "${range}", expected BASE..HEAD`);
+  }
+  const [, base, head] = match;
+  return { base: base || "HEAD", head: head || "HEAD" };
+}
+
+/**
+ * Check whether a revision names a commit
+ *
+ * @param revision - A branch, tag, hash or other revision
+ * @param cwd - Directory inside the repository
+ * @returns Whether git can resolve it to a commit
+ */
+export async function revisionExists(
+  revision: string,
+  cwd?: string,
+): Promise<boolean> {
+  const output = await runGit(
+    ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`],
+    cwd ?? Deno.cwd(),
+  );
+  return output !== undefined;
+}
+
+/**
+ * List the commits in a range, oldest first
+ *
+ * Only the commits on `head` that are not on `base` are listed, so commits
+ * added to `base` after `head` branched off are left out.
+ *
+ * @param range - The range, as parsed by {@linkcode parseCommitRange}
+ * @param cwd - Directory inside the repository
+ * @returns The commits, without merge commits
+ * @throws {Error} If git cannot resolve the range
+ */
+export async function listCommits(
+  range: CommitRange,
+  cwd?: string,
+): Promise<CommitInfo[]> {
+  const revisions = `${range.base}..${range.head}`;
+  const { success, stdout, stderr } = await new Deno.Command("git", {
+    args: [
+      "log",
+      "--reverse",
+      "--no-merges",
+      "--format=%H%x00%B%x1e",
+      revisions,
+    ],
+    cwd,
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+
+  if (!success) {
+    const error = new TextDecoder().decode(stderr);
+    throw new Error(`Failed to list commits in ${revisions}: ${error}`);
+  }
+
+  return new TextDecoder().decode(stdout).split("\x1e")
+    .map((entry) => entry.replace(/^\n/, ""))
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      const [sha, message] = entry.split("\0");
+      return { sha, subject: message.split("\n")[0], message };
+    });
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for hook argument placeholders
+ */
+
+import { expect } from "@std/expect";
+import {
+  checkPlaceholders,
+  expandPlaceholders,
+  suggestHookName,
+} from "./hooks.ts";
+
+Deno.test("expandPlaceholders - replaces placeholders with hook arguments", () => {
+  expect(expandPlaceholders("commit-msg", "check {commit_msg_file}")).toBe(
+    'check "${1}"',
+  );
+  expect(expandPlaceholders("pre-push", "push {remote_url} {args}")).toBe(
+    'push "${2}" "$@"',
+  );
+  expect(expandPlaceholders("pre-push", "awk '{print}' ${HOME} {}")).toBe(
+    "awk '{print}' ${HOME} {}",
+  );
+});
+
+Deno.test("checkPlaceholders - validates against what the hook receives", () => {
+  expect(checkPlaceholders("commit-msg", "check {1} {commit_msg_file}"))
+    .toBeUndefined();
+  expect(checkPlaceholders("commit-msg", "check {2}")).toBe(
+    "{2} is never set: commit-msg receives {1} = {commit_msg_file}",
+  );
+  expect(checkPlaceholders("pre-commit", "check {remote_name}")).toBe(
+    "{remote_name} is not passed to pre-commit: pre-commit receives no arguments",
+  );
+  expect(checkPlaceholders("post-update", "echo {args} {5}")).toBeUndefined();
+});
+
+Deno.test("suggestHookName - finds the intended hook", () => {
+  expect(suggestHookName("pre-comit")).toBe("pre-commit");
+  expect(suggestHookName("prepush")).toBe("pre-push");
+  expect(suggestHookName("commit_msg")).toBe("commit-msg");
+  expect(suggestHookName("lint-everything")).toBeUndefined();
+});
@@ -0,0 +1,209 @@
+/**
+ * What git passes to each hook, and placeholders that refer to it
+ *
+ * Commands can use `{args}` for all hook arguments, `{1}`, `{2}`, ... for a
+ * single argument, or a named placeholder such as `{commit_msg_file}`.
+ * Placeholders expand to quoted shell words, so they are safe with paths
+ * containing spaces and must not be quoted again.
+ *
+ * @example
+ * ```yaml
+ * hooks:
+ *   commit-msg:
+ *     - deno run -A scripts/validate-commit-msg.ts {commit_msg_file}
+ *   pre-push:
+ *     - run: deno run -A scripts/check-refs.ts {remote_name}
+ *       stdin: true
+ * ```
+ *
+ * @module
+ */
+
+import { suggestName } from "./suggest.ts";
+
+/**
+ * Arguments and stdin git provides to a hook
+ */
+export interface GitHookSpec {
+  /** Placeholder names for the positional arguments, in order */
+  args: string[];
+  /** Whether the hook may receive further arguments (e.g., post-update) */
+  variadic?: boolean;
+  /** Whether git writes data to the hook's stdin */
+  stdin?: boolean;
+}
+
+/**
+ * Hooks git runs, with the arguments and stdin each one receives
+ *
+ * See https://git-scm.com/docs/githooks
+ */
+export const GIT_HOOKS: Readonly<Record<string, GitHookSpec>> = {
+  "applypatch-msg": { args: ["commit_msg_file"] },
+  "pre-applypatch": { args: [] },
+  "post-applypatch": { args: [] },
+  "pre-commit": { args: [] },
+  "pre-merge-commit": { args: [] },
+  "prepare-commit-msg": {
+    args: ["commit_msg_file", "commit_source", "commit_sha"],
+  },
+  "commit-msg": { args: ["commit_msg_file"] },
+  "post-commit": { args: [] },
+  "pre-rebase": { args: ["upstream", "branch"] },
+  "post-checkout": { args: ["previous_head", "new_head", "branch_checkout"] },
+  "post-merge": { args: ["squash"] },
+  "pre-push": { args: ["remote_name", "remote_url"], stdin: true },
+  "pre-receive": { args: [], stdin: true },
+  "update": { args: ["ref_name", "old_sha", "new_sha"] },
+  "proc-receive": { args: [], stdin: true },
+  "post-receive": { args: [], stdin: true },
+  "post-update": { args: [], variadic: true },
+  "reference-transaction": { args: ["state"], stdin: true },
+  "push-to-checkout": { args: ["new_sha"] },
+  "pre-auto-gc": { args: [] },
+  "post-rewrite": { args: ["rewrite_command"], stdin: true },
+  "sendemail-validate": { args: ["email_file", "smtp_headers_file"] },
+  "fsmonitor-watchman": { args: ["version", "token"] },
+  "p4-changelist": { args: ["commit_msg_file"] },
+  "p4-prepare-changelist": { args: ["commit_msg_file"] },
+  "p4-post-changelist": { args: [] },
+  "p4-pre-submit": { args: [] },
+  "post-index-change": {
+    args: ["working_dir_updated", "skip_worktree_updated"],
+  },
+};
+
+/**
+ * Spec used for hooks git does not know about (e.g., run via `run <hook>`):
+ * any number of arguments and possibly stdin
+ */
+const CUSTOM_HOOK: GitHookSpec = { args: [], variadic: true, stdin: true };
+
+/**
+ * Every named placeholder of every hook
+ */
+const NAMED_PLACEHOLDERS = new Set(
+  Object.values(GIT_HOOKS).flatMap(({ args }) => args),
+);
+
+/**
+ * Placeholder syntax; `${name}` is left to the shell
+ */
+const PLACEHOLDER_PATTERN = /(?<!\$)\{([A-Za-z0-9_]+)\}/g;
+
+/**
+ * Look up what git passes to a hook
+ *
+ * @param hookName - The git hook name (e.g., "pre-push")
+ * @returns The hook's spec; unknown hooks accept any arguments and stdin
+ */
+export function getGitHookSpec(hookName: string): GitHookSpec {
+  return Object.hasOwn(GIT_HOOKS, hookName) ? GIT_HOOKS[hookName] : CUSTOM_HOOK;
+}
+
+/**
+ * Suggest the git hook a mistyped name was probably meant to be
+ *
+ * @param hookName - A hook name git does not know (e.g., "pre-comit")
+ * @returns The closest known hook name, if any is close enough
+ *
+ * @example
+ * ```ts
+ * suggestHookName("prepush"); // "pre-push"
+ * ```
+ */
+export function suggestHookName(hookName: string): string | undefined {
+  return suggestName(hookName, Object.keys(GIT_HOOKS));
+}
+
+/**
+ * Check whether a `{name}` in a command is a placeholder
+ *
+ * Only `args`, argument numbers and the named placeholders of known hooks
+ * count; anything else (e.g., `awk '{print}'`) is left untouched.
+ */
+function isPlaceholder(name: string): boolean {
+  return name === "args" || /^[1-9][0-9]*$/.test(name) ||
+    NAMED_PLACEHOLDERS.has(name);
+}
+
+/**
+ * Find the placeholders used in a command
+ *
+ * @param run - Shell command as written in the configuration
+ * @returns Placeholder names in order of appearance, without braces
+ */
+export function findPlaceholders(run: string): string[] {
+  return [...run.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1])
+    .filter(isPlaceholder);
+}
+
+/**
+ * Check that a hook receives what a command's placeholders refer to
+ *
+ * @param hookName - The git hook name (e.g., "commit-msg")
+ * @param run - Shell command as written in the configuration
+ * @returns A description of the first problem, or undefined if none
+ */
+export function checkPlaceholders(
+  hookName: string,
+  run: string,
+): string | undefined {
+  const spec = getGitHookSpec(hookName);
+  for (const name of findPlaceholders(run)) {
+    if (name === "args") {
+      if (spec.args.length === 0 && !spec.variadic) {
+        return `{args} is always empty: ${describeArguments(hookName, spec)}`;
+      }
+    } else if (/^[0-9]+$/.test(name)) {
+      if (Number(name) > spec.args.length && !spec.variadic) {
+        return `{${name}} is never set: ${describeArguments(hookName, spec)}`;
+      }
+    } else if (!spec.args.includes(name)) {
+      return `{${name}} is not passed to ${hookName}: ${
+        describeArguments(hookName, spec)
+      }`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describe a hook's arguments and their placeholders
+ */
+function describeArguments(hookName: string, spec: GitHookSpec): string {
+  if (spec.args.length === 0) {
+    return spec.variadic
+      ? `${hookName} receives a variable number of arguments, use {args} or {1}, {2}, ...`
+      : `${hookName} receives no arguments`;
+  }
+  return `${hookName} receives ${
+    spec.args.map((name, i) => `{${i + 1}} = {${name}}`).join(", ")
+  }`;
+}
+
+/**
+ * Replace placeholders with the shell parameters they stand for
+ *
+ * @param hookName - The git hook name, to resolve named placeholders
+ * @param run - Shell command as written in the configuration
+ * @returns The command with `{args}` as `"$@"` and others as `"${n}"`
+ *
+ * @example
+ * ```ts
+ * expandPlaceholders("commit-msg", "check {commit_msg_file}");
+ * // check "${1}"
+ * ```
+ */
+export function expandPlaceholders(hookName: string, run: string): string {
+  const { args } = getGitHookSpec(hookName);
+  return run.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (!isPlaceholder(name)) return match;
+    if (name === "args") return `"$@"`;
+    const position = /^[0-9]+$/.test(name)
+      ? Number(name)
+      : args.indexOf(name) + 1;
+    return position > 0 ? `"\${${position}}"` : match;
+  });
+}
@@ -0,0 +1,304 @@
+/**
+ * Tests for importing other hook managers' setups
+ */
+
+import { expect } from "@std/expect";
+import { parse as parseYaml } from "@std/yaml";
+import { loadConfig } from "./config.ts";
+import {
+  detectImportSources,
+  formatImportedConfig,
+  importHooks,
+  readImportSource,
+} from "./import.ts";
+import { install } from "./install.ts";
+import { silentLogger } from "./logger.ts";
+import { withTempRepo } from "./test-utils.ts";
+
+/**
+ * Write files below a directory, creating parent directories
+ */
+async function writeFiles(
+  root: string,
+  files: Record<string, string>,
+): Promise<void> {
+  for (const [path, text] of Object.entries(files)) {
+    const file = `${root}/${path}`;
+    await Deno.mkdir(file.slice(0, file.lastIndexOf("/")), { recursive: true });
+    await Deno.writeTextFile(file, text);
+  }
+}
+
+Deno.test("readImportSource - splits Husky scripts into commands", async () => {
+  await withTempRepo(async (root) => {
+    await writeFiles(root, {
+      ".husky/pre-commit": [
+        "#!/usr/bin/env sh",
+        '. "$(dirname -- "$0")/_/husky.sh"',
+        "",
+        "# Format first",
+        "deno fmt --check",
+        "deno lint",
+        "",
+      ].join("\n"),
+      ".husky/commit-msg": 'if grep -q WIP "$1"; then\n  exit 1\nfi\n',
+      ".husky/_/husky.sh": "",
+      "package.json": JSON.stringify({
+        husky: { hooks: { "pre-push": "deno test $HUSKY_GIT_PARAMS" } },
+      }),
+    });
+
+    expect(await detectImportSources(root)).toEqual(["husky"]);
+    const imported = await readImportSource(root, "husky");
+    expect(imported.files).toEqual([
+      ".husky/commit-msg",
+      ".husky/pre-commit",
+      "package.json",
+    ]);
+    expect(imported.config.hooks).toEqual({
+      "commit-msg": ["sh .husky/commit-msg {args}"],
+      "pre-commit": ["deno fmt --check", "deno lint"],
+      "pre-push": ["deno test {args}"],
+    });
+    expect(imported.unsupported).toEqual([
+      ".husky/commit-msg uses multi-line shell syntax, so it runs as a script and must be kept",
+    ]);
+  });
+});
+
+Deno.test("readImportSource - converts lefthook commands, scripts and templates", async () => {
+  await withTempRepo(async (root) => {
+    await writeFiles(root, {
+      "lefthook.yml": [
+        "colors: false",
+        "pre-commit:",
+        "  parallel: true",
+        "  commands:",
+        "    test:",
+        "      priority: 2",
+        "      run: deno test",
+        "    fmt:",
+        "      priority: 1",
+        "      glob: '*.{ts,tsx}'",
+        "      root: web/",
+        "      run: deno fmt {staged_files}",
+        "    everything:",
+        "      run: deno lint {all_files}",
+        "    tagged:",
+        "      tags: [style]",
+        "      run: echo tagged",
+        "  scripts:",
+        "    check.sh:",
+        "      runner: bash",
+        "commit-msg:",
+        "  commands:",
+        "    lint:",
+        "      run: commitlint --edit {1}",
+        "",
+      ].join("\n"),
+    });
+
+    const imported = await readImportSource(root, "lefthook");
+    expect(imported.config.hooks).toEqual({
+      "pre-commit": {
+        parallel: true,
+        commands: [
+          {
+            run: "deno fmt",
+            id: "fmt",
+            files: "*.{ts,tsx}",
+            pass_filenames: true,
+            cwd: "web",
+          },
+          { run: "deno test", id: "test" },
+          { run: "echo tagged", id: "tagged" },
+          { run: "bash .lefthook/pre-commit/check.sh", id: "check.sh" },
+        ],
+      },
+      "commit-msg": [{
+        run: "commitlint --edit {commit_msg_file}",
+        id: "lint",
+      }],
+    });
+    expect(imported.unsupported).toEqual([
+      "lefthook pre-commit.everything: {all_files} is only supported as {staged_files} or {push_files} at the end of the command",
+      "lefthook pre-commit.tagged.tags",
+    ]);
+  });
+});
+
+Deno.test("readImportSource - reads simple-git-hooks from package.json", async () => {
+  await withTempRepo(async (root) => {
+    await writeFiles(root, {
+      "package.json": JSON.stringify({
+        "simple-git-hooks": {
+          "pre-commit": "deno fmt --check && deno lint",
+          "pre-push": "deno task test\ndeno task e2e",
+          preserveUnused: true,
+        },
+      }),
+    });
+
+    const imported = await readImportSource(root, "simple-git-hooks");
+    expect(imported.config.hooks).toEqual({
+      "pre-commit": ["deno fmt --check && deno lint"],
+      "pre-push": ["deno task test", "deno task e2e"],
+    });
+    expect(imported.unsupported).toEqual([]);
+  });
+});
+
+Deno.test("readImportSource - imports the local hooks of pre-commit", async () => {
+  await withTempRepo(async (root) => {
+    await writeFiles(root, {
+      ".pre-commit-config.yaml": [
+        "repos:",
+        "  - repo: https://github.com/pre-commit/pre-commit-hooks",
+        "    rev: v4.6.0",
+        "    hooks:",
+        "      - id: trailing-whitespace",
+        "  - repo: local",
+        "    hooks:",
+        "      - id: deno-fmt",
+        "        name: deno fmt",
+        "        entry: deno fmt --check",
+        "        language: system",
+        "        files: \\.(ts|tsx)$",
+        "        exclude: ^vendor/.*\\.ts$",
+        "      - id: deno-test",
+        "        entry: deno test",
+        "        args: [--allow-read, --filter, unit tests]",
+        "        language: system",
+        "        pass_filenames: false",
+        "        stages: [pre-push]",
+        "      - id: markdown",
+        "        entry: markdownlint",
+        "        language: node",
+        "        types: [markdown]",
+        "      - id: message",
+        "        entry: ./scripts/check-message.sh",
+        "        language: script",
+        "        stages: [commit-msg]",
+        "",
+      ].join("\n"),
+    });
+
+    const imported = await readImportSource(root, "pre-commit");
+    expect(imported.config.hooks).toEqual({
+      "pre-commit": {
+        fail_fast: false,
+        commands: [
+          {
+            run: "deno fmt --check",
+            id: "deno-fmt",
+            files: "*.{ts,tsx}",
+            exclude: "vendor/**/*.ts",
+            pass_filenames: true,
+          },
+          {
+            run: "markdownlint",
+            id: "markdown",
+            files: "*.md",
+            pass_filenames: true,
+          },
+        ],
+      },
+      "pre-push": {
+        fail_fast: false,
+        commands: [{
+          run: "deno test --allow-read --filter 'unit tests'",
+          id: "deno-test",
+        }],
+      },
+      "commit-msg": {
+        fail_fast: false,
+        commands: ["./scripts/check-message.sh {commit_msg_file}"],
+      },
+    });
+    expect(imported.unsupported).toEqual([
+      "hooks from https://github.com/pre-commit/pre-commit-hooks (trailing-whitespace); replace them with local commands",
+      "pre-commit markdown: language node (runs as a system command; install its dependencies yourself)",
+    ]);
+  });
+});
+
+Deno.test("formatImportedConfig - lists what was not imported", () => {
+  const text = formatImportedConfig({
+    source: "lefthook",
+    files: ["lefthook.yml"],
+    config: {
+      hooks: {
+        "pre-commit": {
+          parallel: true,
+          commands: [{ run: "deno fmt", files: "*.ts", pass_filenames: true }],
+        },
+        "pre-push": ["deno task test"],
+      },
+    },
+    unsupported: ["lefthook pre-commit.fmt.tags"],
+  });
+
+  expect(text).toContain("imported from lefthook.yml");
+  expect(text).toContain("# Not imported:\n# - lefthook pre-commit.fmt.tags\n");
+  expect(parseYaml(text)).toEqual({
+    hooks: {
+      "pre-commit": {
+        parallel: true,
+        commands: [{ run: "deno fmt", files: "*.ts", pass_filenames: true }],
+      },
+      "pre-push": ["deno task test"],
+    },
+  });
+});
+
+Deno.test("importHooks - writes deno-hooks.yml once", async () => {
+  await withTempRepo(async (root) => {
+    await expect(importHooks({ logger: silentLogger })).rejects.toThrow(
+      "No hook setup to import",
+    );
+
+    await writeFiles(root, {
+      "lefthook.yml":
+        "pre-push:\n  commands:\n    test:\n      run: deno test\n",
+      ".husky/pre-commit": "deno lint\n",
+    });
+    await expect(importHooks({ logger: silentLogger })).rejects.toThrow(
+      "Found several hook setups (husky, lefthook)",
+    );
+
+    const preview = await importHooks({
+      from: "lefthook",
+      dryRun: true,
+      logger: silentLogger,
+    });
+    expect(preview.written).toBe(false);
+    await expect(Deno.stat(preview.path)).rejects.toThrow();
+
+    const result = await importHooks({
+      from: "lefthook",
+      logger: silentLogger,
+    });
+    expect(result.written).toBe(true);
+    const config = await loadConfig(root, { logger: silentLogger });
+    expect(config.hooks).toEqual({
+      "pre-push": [{ run: "deno test", id: "test" }],
+    });
+
+    await expect(importHooks({ from: "husky", logger: silentLogger }))
+      .rejects.toThrow("deno-hooks.yml already exists");
+  });
+});
+
+Deno.test("install - creates the configuration from the hook setup found", async () => {
+  await withTempRepo(async (root) => {
+    await writeFiles(root, { ".husky/pre-commit": "deno lint\n" });
+
+    const result = await install({ yes: true, logger: silentLogger });
+
+    expect(result.createdConfig).toBe(true);
+    expect(await Deno.readTextFile(`${root}/deno-hooks.yml`)).toContain(
+      "imported from .husky/pre-commit",
+    );
+    expect(result.written).toEqual(["pre-commit"]);
+  });
+});
@@ -0,0 +1,906 @@
+/**
+ * Import hook setups from other hook managers
+ *
+ * Reads the configuration of Husky (`.husky/`, or `husky.hooks` in
+ * package.json), lefthook (`lefthook.yml`), simple-git-hooks (its key in
+ * package.json, or `.simple-git-hooks.json`) and pre-commit (the `local`
+ * hooks of `.pre-commit-config.yaml`) and converts it to a
+ * {@linkcode Config}. Whatever has no equivalent is listed in
+ * {@linkcode ImportedConfig.unsupported}, and as comments at the top of the
+ * generated file, so nothing is dropped silently.
+ *
+ * @example
+ * ```ts
+ * import { importHooks } from "@theswanfactory/deno-hooks";
+ *
+ * const { config, unsupported } = await importHooks({ dryRun: true });
+ * console.log(Object.keys(config.hooks), unsupported);
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type CommandConfig,
+  type Config,
+  describeCommand,
+  getHookConfig,
+  type HookCommand,
+  type HookConfig,
+  ID_PATTERN,
+  SCHEMA_URL,
+  validateConfig,
+} from "./config.ts";
+import {
+  asRecord,
+  findFile,
+  isRecord,
+  parseDocument,
+  readDocument,
+} from "./documents.ts";
+import { CHANGED_FILES_HOOKS } from "./files.ts";
+import { getGitRoot, getHooksDir } from "./git.ts";
+import { getGitHookSpec, GIT_HOOKS } from "./hooks.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import { formatYamlCommand, formatYamlValue } from "./yaml.ts";
+
+/**
+ * Hook managers {@linkcode importHooks} can read
+ */
+export const IMPORT_SOURCES = [
+  "husky",
+  "lefthook",
+  "simple-git-hooks",
+  "pre-commit",
+] as const;
+
+/**
+ * A hook manager {@linkcode importHooks} can read
+ */
+export type ImportSource = typeof IMPORT_SOURCES[number];
+
+/**
+ * A configuration converted from another hook manager
+ */
+export interface ImportedConfig {
+  /** The hook manager it came from */
+  source: ImportSource;
+  /** Files that were read, relative to the repository root */
+  files: string[];
+  /** The equivalent configuration */
+  config: Config;
+  /** Settings that have no equivalent and were left out */
+  unsupported: string[];
+}
+
+/**
+ * Options for {@linkcode importHooks}
+ */
+export interface ImportOptions {
+  /**
+   * Hook manager to import from (default: the only one found in the
+   * repository)
+   */
+  from?: ImportSource;
+  /** Print the configuration instead of writing deno-hooks.yml */
+  dryRun?: boolean;
+  /** Where progress messages go (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * Outcome of {@linkcode importHooks}
+ */
+export interface ImportResult extends ImportedConfig {
+  /** Path of the generated deno-hooks.yml */
+  path: string;
+  /** Its content */
+  text: string;
+  /** Whether it was written */
+  written: boolean;
+}
+
+/**
+ * lefthook configuration files, in the order lefthook reads them
+ */
+const LEFTHOOK_FILES = [
+  "lefthook.yml",
+  "lefthook.yaml",
+  ".lefthook.yml",
+  ".lefthook.yaml",
+];
+
+/**
+ * lefthook settings that only affect lefthook itself
+ */
+const LEFTHOOK_SETTINGS = [
+  "assert_lefthook_installed",
+  "colors",
+  "lefthook",
+  "min_version",
+  "no_tty",
+  "output",
+  "rc",
+  "skip_lfs",
+  "skip_output",
+  "source_dir",
+  "source_dir_local",
+  "templates",
+];
+
+/**
+ * simple-git-hooks configuration files, besides its key in package.json
+ */
+const SIMPLE_GIT_HOOKS_FILES = [
+  ".simple-git-hooks.json",
+  "simple-git-hooks.json",
+];
+
+/**
+ * pre-commit configuration files
+ */
+const PRE_COMMIT_FILES = [".pre-commit-config.yaml", ".pre-commit-config.yml"];
+
+/**
+ * Old pre-commit stage names and the git hooks they mean
+ */
+const PRE_COMMIT_STAGES: Readonly<Record<string, string>> = {
+  commit: "pre-commit",
+  "merge-commit": "pre-merge-commit",
+  push: "pre-push",
+};
+
+/**
+ * Globs for common pre-commit file types
+ */
+const PRE_COMMIT_TYPES: Readonly<Record<string, string[]>> = {
+  css: ["*.css"],
+  go: ["*.go"],
+  html: ["*.html", "*.htm"],
+  javascript: ["*.js", "*.mjs", "*.cjs"],
+  json: ["*.json"],
+  jsx: ["*.jsx"],
+  markdown: ["*.md"],
+  python: ["*.py", "*.pyi"],
+  rust: ["*.rs"],
+  shell: ["*.sh", "*.bash"],
+  toml: ["*.toml"],
+  ts: ["*.ts"],
+  tsx: ["*.tsx"],
+  yaml: ["*.yaml", "*.yml"],
+};
+
+/**
+ * Shell syntax that spans lines, which a list of commands cannot express
+ */
+const SHELL_BLOCK_PATTERN =
+  /^(if|then|else|elif|fi|for|while|until|do|done|case|esac|function)\b|^[\w-]+\s*\(\)|\\$|<<|[{}]$/;
+
+/**
+ * Find the hook managers configured in a repository
+ *
+ * @param rootDir - The git repository root directory
+ * @returns The hook managers found, in {@linkcode IMPORT_SOURCES} order
+ */
+export async function detectImportSources(
+  rootDir: string,
+): Promise<ImportSource[]> {
+  const packageJson = await readPackageJson(rootDir);
+  const found: ImportSource[] = [];
+  if (
+    (await listHuskyHooks(rootDir)).length > 0 ||
+    isRecord(asRecord(packageJson?.husky)?.hooks)
+  ) {
+    found.push("husky");
+  }
+  if (await findFile(rootDir, LEFTHOOK_FILES)) found.push("lefthook");
+  if (
+    packageJson?.["simple-git-hooks"] !== undefined ||
+    await findFile(rootDir, SIMPLE_GIT_HOOKS_FILES)
+  ) {
+    found.push("simple-git-hooks");
+  }
+  if (await findFile(rootDir, PRE_COMMIT_FILES)) found.push("pre-commit");
+  return found;
+}
+
+/**
+ * Convert the configuration of a hook manager
+ *
+ * The result is checked with {@linkcode validateConfig}; problems are added
+ * to {@linkcode ImportedConfig.unsupported}.
+ *
+ * @param rootDir - The git repository root directory
+ * @param source - The hook manager to read
+ * @returns The equivalent configuration and what was left out
+ * @throws {Error} If its configuration is missing or cannot be parsed
+ */
+export async function readImportSource(
+  rootDir: string,
+  source: ImportSource,
+): Promise<ImportedConfig> {
+  if (!(await detectImportSources(rootDir)).includes(source)) {
+    throw new Error(`No ${source} setup found in ${rootDir}`);
+  }
+  const imported = await {
+    husky: importHusky,
+    lefthook: importLefthook,
+    "simple-git-hooks": importSimpleGitHooks,
+    "pre-commit": importPreCommit,
+  }[source](rootDir);
+
+  const issues = validateConfig(imported.config, { unknownHooks: "warn" });
+  for (const issue of issues) {
+    if (issue.severity === "error") {
+      imported.unsupported.push(`fix by hand: ${issue.message}`);
+    }
+  }
+  return imported;
+}
+
+/**
+ * Format an imported configuration as deno-hooks.yml
+ *
+ * @param imported - What {@linkcode readImportSource} returned
+ * @returns The file content, listing what was left out in comments
+ */
+export function formatImportedConfig(imported: ImportedConfig): string {
+  const lines = [
+    `# yaml-language-server: $schema=${SCHEMA_URL}`,
+    `# Deno Hooks Configuration, imported from ${imported.files.join(", ")}`,
+    "# Learn more: https://jsr.io/@theswanfactory/deno-hooks",
+  ];
+  if (imported.unsupported.length > 0) {
+    lines.push("#", "# Not imported:");
+    for (const note of imported.unsupported) lines.push(`# - ${note}`);
+  }
+  lines.push("", "hooks:");
+
+  Object.keys(imported.config.hooks).forEach((hookName, index) => {
+    if (index > 0) lines.push("");
+    lines.push(`  ${hookName}:`);
+    const { commands, ...options } = getHookConfig(imported.config, hookName);
+    const settings = Object.entries(options);
+    if (settings.length === 0) {
+      for (const command of commands) {
+        lines.push(...formatYamlCommand(command, 4));
+      }
+      return;
+    }
+    for (const [key, value] of settings) {
+      lines.push(`    ${key}: ${formatYamlValue(value)}`);
+    }
+    lines.push("    commands:");
+    for (const command of commands) {
+      lines.push(...formatYamlCommand(command, 6));
+    }
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Generate deno-hooks.yml from another hook manager's configuration
+ *
+ * @param options - Which hook manager to read, and whether to only print
+ *   the result
+ * @returns The configuration, what was left out and whether it was written
+ * @throws {Error} If not in a git repository, no hook manager (or more than
+ *   one, without `from`) is configured, or a deno-hooks configuration
+ *   already exists
+ */
+export async function importHooks(
+  options: ImportOptions = {},
+): Promise<ImportResult> {
+  const { dryRun = false, logger = consoleLogger } = options;
+  const log = (message: string) => logger.info(message);
+  const root = await getGitRoot();
+
+  let source = options.from;
+  if (source === undefined) {
+    const found = await detectImportSources(root);
+    if (found.length === 0) {
+      throw new Error(
+        `No hook setup to import. Looked for: ${IMPORT_SOURCES.join(", ")}`,
+      );
+    }
+    if (found.length > 1) {
+      throw new Error(
+        `Found several hook setups (${
+          found.join(", ")
+        }); choose one with --from=NAME`,
+      );
+    }
+    source = found[0];
+  }
+
+  const path = `${root}/deno-hooks.yml`;
+  const existing = await findExistingConfig(root);
+  if (existing && !dryRun) {
+    throw new Error(
+      `${existing} already exists; remove it to import, or preview the import with --dry-run`,
+    );
+  }
+
+  const imported = await readImportSource(root, source);
+  const hookNames = Object.keys(imported.config.hooks);
+  if (hookNames.length === 0) {
+    throw new Error(`No hooks found in ${imported.files.join(", ")}`);
+  }
+  const text = formatImportedConfig(imported);
+
+  log(
+    `Imported ${hookNames.length} hook(s) from ${imported.files.join(", ")}:\n`,
+  );
+  for (const hookName of hookNames) {
+    log(`  ${hookName}:`);
+    for (const command of getHookConfig(imported.config, hookName).commands) {
+      log(`    - ${describeCommand(command)}`);
+    }
+  }
+  for (const note of imported.unsupported) {
+    logger.warn(`  ⚠ Not imported: ${note}`);
+  }
+
+  const result = { ...imported, path, text, written: false };
+  if (dryRun) {
+    log(`\n${text}`);
+    return result;
+  }
+  await Deno.writeTextFile(path, text);
+  result.written = true;
+  log(`\n✓ Created ${path}; run install to generate the hooks`);
+
+  const { reason } = await getHooksDir(root);
+  if (source === "husky" && reason.startsWith("core.hooksPath")) {
+    logger.warn(
+      `⚠ Husky set ${
+        reason.replace(" is set to", "")
+      }; run git config --unset core.hooksPath before installing`,
+    );
+  }
+  return result;
+}
+
+/**
+ * The deno-hooks configuration already in the repository root, if any
+ */
+async function findExistingConfig(root: string): Promise<string | undefined> {
+  const file = await findFile(root, ["deno-hooks.config.ts", "deno-hooks.yml"]);
+  if (file) return `${root}/${file}`;
+  const denoJson = asRecord(await readDocument(root, "deno.json"));
+  return denoJson?.["deno-hooks"] ? `${root}/deno.json` : undefined;
+}
+
+/**
+ * Import `.husky/<hook>` scripts, or `husky.hooks` from package.json
+ * (Husky 4)
+ */
+async function importHusky(rootDir: string): Promise<ImportedConfig> {
+  const imported = emptyImport("husky");
+  const hooks: Record<string, HookCommand[]> = {};
+
+  for (const hookName of await listHuskyHooks(rootDir)) {
+    const file = `.husky/${hookName}`;
+    imported.files.push(file);
+    const text = await Deno.readTextFile(`${rootDir}/${file}`);
+    const commands = splitScript(text, () => {
+      imported.unsupported.push(
+        `${file} uses multi-line shell syntax, so it runs as a script and must be kept`,
+      );
+      return withArgs(`sh ${file}`, hookName);
+    });
+    if (commands.length > 0) hooks[hookName] = commands;
+  }
+
+  const packageJson = await readPackageJson(rootDir);
+  const legacy = asRecord(asRecord(packageJson?.husky)?.hooks);
+  if (legacy) {
+    imported.files.push("package.json");
+    for (const [hookName, run] of Object.entries(legacy)) {
+      if (!isGitHook(hookName) || typeof run !== "string") {
+        imported.unsupported.push(`package.json husky.hooks.${hookName}`);
+        continue;
+      }
+      // Husky 4 passed the hook arguments in HUSKY_GIT_PARAMS
+      (hooks[hookName] ??= []).push(
+        run.replace(/\$\{?HUSKY_GIT_PARAMS\}?/g, hookArgs(hookName)).trim(),
+      );
+    }
+  }
+  imported.config.hooks = hooks;
+  return imported;
+}
+
+/**
+ * Hooks that have a script in `.husky/`, sorted by name
+ */
+async function listHuskyHooks(rootDir: string): Promise<string[]> {
+  const hooks: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(`${rootDir}/.husky`)) {
+      if (entry.isFile && isGitHook(entry.name)) hooks.push(entry.name);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return hooks.sort();
+}
+
+/**
+ * Import lefthook.yml: `commands`, `scripts` and `jobs` of each hook
+ */
+async function importLefthook(rootDir: string): Promise<ImportedConfig> {
+  const imported = emptyImport("lefthook");
+  const file = (await findFile(rootDir, LEFTHOOK_FILES))!;
+  imported.files.push(file);
+  const document = asRecord(parseDocument(
+    await Deno.readTextFile(`${rootDir}/${file}`),
+    file,
+  )) ?? {};
+  const sourceDir = typeof document.source_dir === "string"
+    ? document.source_dir.replace(/\/+$/, "")
+    : ".lefthook";
+
+  for (const [key, value] of Object.entries(document)) {
+    if (!isGitHook(key)) {
+      if (!LEFTHOOK_SETTINGS.includes(key)) {
+        imported.unsupported.push(`${file}: ${key}`);
+      }
+      continue;
+    }
+    const hook = asRecord(value) ?? {};
+    const label = `${file}: ${key}`;
+    const commands: HookCommand[] = [];
+    const add = (name: string, entry: unknown) => {
+      const command = lefthookCommand(key, name, entry, sourceDir, imported);
+      if (command) commands.push(command);
+    };
+
+    const named = Object.entries(asRecord(hook.commands) ?? {});
+    // Commands with a priority run first, lowest first
+    const priority = (entry: unknown) => {
+      const value = asRecord(entry)?.priority;
+      return typeof value === "number" && value > 0 ? value : Infinity;
+    };
+    named.sort(([, a], [, b]) => priority(a) - priority(b));
+    for (const [name, entry] of named) add(name, entry);
+    for (const [name, entry] of Object.entries(asRecord(hook.scripts) ?? {})) {
+      add(name, { ...asRecord(entry), script: name });
+    }
+    if (Array.isArray(hook.jobs)) {
+      hook.jobs.forEach((job, index) => {
+        const name = asRecord(job)?.name;
+        add(typeof name === "string" ? name : `jobs[${index}]`, job);
+      });
+    }
+
+    for (const setting of Object.keys(hook)) {
+      if (
+        !["commands", "scripts", "jobs", "parallel", "piped"].includes(setting)
+      ) {
+        imported.unsupported.push(`${label}.${setting}`);
+      }
+    }
+    if (commands.length === 0) continue;
+    imported.config.hooks[key] = hook.parallel === true
+      ? { parallel: true, commands }
+      : commands;
+  }
+
+  if (await findFile(rootDir, ["lefthook-local.yml", "lefthook-local.yaml"])) {
+    imported.unsupported.push(
+      "lefthook-local.yml (personal overrides are not merged)",
+    );
+  }
+  return imported;
+}
+
+/**
+ * Convert a lefthook command, script or job
+ */
+function lefthookCommand(
+  hookName: string,
+  name: string,
+  entry: unknown,
+  sourceDir: string,
+  imported: ImportedConfig,
+): HookCommand | undefined {
+  const label = `lefthook ${hookName}.${name}`;
+  const {
+    run,
+    script,
+    runner,
+    glob,
+    exclude,
+    root,
+    env,
+    use_stdin,
+    priority: _priority,
+    name: _name,
+    ...rest
+  } = asRecord(entry) ?? {};
+
+  let command: string;
+  if (typeof run === "string") {
+    command = run.trim();
+  } else if (typeof script === "string") {
+    const path = `${sourceDir}/${hookName}/${script}`;
+    command = withArgs(
+      typeof runner === "string" ? `${runner} ${path}` : `./${path}`,
+      hookName,
+    );
+  } else {
+    imported.unsupported.push(`${label}: it has no run command`);
+    return undefined;
+  }
+
+  // lefthook puts file lists where its templates are; deno-hooks can only
+  // append them
+  const templates = [
+    ...command.matchAll(/\{(staged_files|push_files|all_files|files)\}/g),
+  ];
+  const passFilenames = templates.length > 0;
+  if (passFilenames) {
+    const [template] = templates[0];
+    if (
+      templates.length > 1 || !command.endsWith(template) ||
+      !["{staged_files}", "{push_files}"].includes(template)
+    ) {
+      imported.unsupported.push(
+        `${label}: ${template} is only supported as {staged_files} or {push_files} at the end of the command`,
+      );
+      return undefined;
+    }
+    command = command.slice(0, -template.length).trimEnd();
+  }
+  // {0} is all the hook's arguments, {1} the first and so on
+  const { args } = getGitHookSpec(hookName);
+  command = command.replace(
+    /\{(\d+)\}/g,
+    (template: string, index: string) =>
+      index === "0"
+        ? hookArgs(hookName)
+        : args[Number(index) - 1] === undefined
+        ? template
+        : `{${args[Number(index) - 1]}}`,
+  ).trim();
+
+  const config: CommandConfig = { run: command };
+  if (ID_PATTERN.test(name)) config.id = name;
+  if (isGlobs(glob)) config.files = glob;
+  if (isGlobs(exclude)) {
+    config.exclude = exclude;
+  } else if (exclude !== undefined) {
+    imported.unsupported.push(`${label}.exclude (not a glob list)`);
+  }
+  if (passFilenames) config.pass_filenames = true;
+  if (typeof root === "string") config.cwd = root.replace(/\/+$/, "");
+  if (isRecord(env)) config.env = env as CommandConfig["env"];
+  if (use_stdin === true) config.stdin = true;
+  for (const key of Object.keys(rest)) {
+    imported.unsupported.push(`${label}.${key}`);
+  }
+  return simplify(config);
+}
+
+/**
+ * Import simple-git-hooks from package.json or its JSON configuration file
+ */
+async function importSimpleGitHooks(
+  rootDir: string,
+): Promise<ImportedConfig> {
+  const imported = emptyImport("simple-git-hooks");
+  let settings = asRecord(
+    (await readPackageJson(rootDir))?.["simple-git-hooks"],
+  );
+  if (settings) {
+    imported.files.push("package.json");
+  } else {
+    const file = (await findFile(rootDir, SIMPLE_GIT_HOOKS_FILES))!;
+    imported.files.push(file);
+    settings = asRecord(await readDocument(rootDir, file)) ?? {};
+  }
+
+  for (const [hookName, script] of Object.entries(settings)) {
+    if (hookName === "preserveUnused") continue;
+    if (!isGitHook(hookName) || typeof script !== "string") {
+      imported.unsupported.push(`simple-git-hooks ${hookName}`);
+      continue;
+    }
+    const commands = splitScript(script, () => script.trim());
+    if (commands.length > 0) imported.config.hooks[hookName] = commands;
+  }
+  return imported;
+}
+
+/**
+ * Import the `local` hooks of .pre-commit-config.yaml
+ *
+ * pre-commit runs every hook even after one fails, so the imported hooks
+ * use `fail_fast: false` unless the configuration sets `fail_fast: true`.
+ */
+async function importPreCommit(rootDir: string): Promise<ImportedConfig> {
+  const imported = emptyImport("pre-commit");
+  const file = (await findFile(rootDir, PRE_COMMIT_FILES))!;
+  imported.files.push(file);
+  const document = asRecord(parseDocument(
+    await Deno.readTextFile(`${rootDir}/${file}`),
+    file,
+  )) ?? {};
+  const defaultStages = Array.isArray(document.default_stages)
+    ? document.default_stages
+    : ["pre-commit"];
+  for (const key of ["files", "exclude"]) {
+    if (document[key] !== undefined) {
+      imported.unsupported.push(`${file}: top-level ${key}`);
+    }
+  }
+
+  const commands: Record<string, HookCommand[]> = {};
+  for (const repo of Array.isArray(document.repos) ? document.repos : []) {
+    const { repo: url, hooks } = asRecord(repo) ?? {};
+    if (url !== "local") {
+      const ids = (Array.isArray(hooks) ? hooks : [])
+        .map((hook) => asRecord(hook)?.id).filter((id) => id !== undefined);
+      imported.unsupported.push(
+        `hooks from ${url} (${
+          ids.join(", ")
+        }); replace them with local commands`,
+      );
+      continue;
+    }
+    for (const hook of Array.isArray(hooks) ? hooks : []) {
+      const definition = asRecord(hook) ?? {};
+      const stages = Array.isArray(definition.stages)
+        ? definition.stages
+        : defaultStages;
+      for (const stage of stages) {
+        const hookName = PRE_COMMIT_STAGES[stage] ?? stage;
+        if (!isGitHook(hookName)) {
+          imported.unsupported.push(
+            `pre-commit ${definition.id}: stage ${stage}`,
+          );
+          continue;
+        }
+        const command = preCommitCommand(hookName, definition, imported);
+        if (!command) continue;
+        // Ids must be unique within a hook
+        const list = commands[hookName] ??= [];
+        if (
+          typeof command !== "string" && command.id !== undefined &&
+          list.some((other) =>
+            typeof other !== "string" && other.id === command.id
+          )
+        ) {
+          delete command.id;
+        }
+        list.push(command);
+      }
+    }
+  }
+
+  for (const [hookName, list] of Object.entries(commands)) {
+    imported.config.hooks[hookName] = document.fail_fast === true
+      ? list
+      : { fail_fast: false, commands: list } satisfies HookConfig;
+  }
+  return imported;
+}
+
+/**
+ * Convert one pre-commit hook definition for one git hook
+ */
+function preCommitCommand(
+  hookName: string,
+  definition: Record<string, unknown>,
+  imported: ImportedConfig,
+): HookCommand | undefined {
+  const {
+    id,
+    entry,
+    args,
+    language,
+    files,
+    exclude,
+    types,
+    types_or,
+    pass_filenames,
+  } = definition;
+  const label = `pre-commit ${id}`;
+  if (typeof entry !== "string") {
+    imported.unsupported.push(`${label}: it has no entry`);
+    return undefined;
+  }
+  if (language === "fail" || language === "pygrep") {
+    imported.unsupported.push(`${label}: language ${language}`);
+    return undefined;
+  }
+  if (
+    typeof language === "string" &&
+    !["system", "script", "unsupported", "unsupported_script"].includes(
+      language,
+    )
+  ) {
+    imported.unsupported.push(
+      `${label}: language ${language} (runs as a system command; install its dependencies yourself)`,
+    );
+  }
+  for (
+    const key of ["always_run", "exclude_types", "additional_dependencies"]
+  ) {
+    if (definition[key] !== undefined && definition[key] !== false) {
+      imported.unsupported.push(`${label}.${key}`);
+    }
+  }
+
+  const words = [
+    entry.trim(),
+    ...(Array.isArray(args) ? args.map((arg) => shellQuote(String(arg))) : []),
+  ];
+  const passFilenames = pass_filenames !== false;
+  // pre-commit passes the message file to commit-msg hooks as the filename
+  if (getGitHookSpec(hookName).args[0] === "commit_msg_file") {
+    if (passFilenames) words.push("{commit_msg_file}");
+    return words.join(" ");
+  }
+
+  const command: CommandConfig = { run: words.join(" ") };
+  if (typeof id === "string" && ID_PATTERN.test(id)) command.id = id;
+  if (CHANGED_FILES_HOOKS.includes(hookName)) {
+    const patterns = typeof files === "string"
+      ? regexToGlobs(files)
+      : types_or !== undefined
+      ? typesToGlobs(types_or, "any")
+      : typesToGlobs(types, "all");
+    if (patterns === undefined) {
+      imported.unsupported.push(
+        `${label}: files ${
+          JSON.stringify(files ?? types_or ?? types)
+        } (no glob equivalent, so it receives all files)`,
+      );
+    } else if (patterns.length > 0) {
+      command.files = patterns.length === 1 ? patterns[0] : patterns;
+    }
+    if (typeof exclude === "string") {
+      const excluded = regexToGlobs(exclude);
+      if (excluded && excluded.length > 0) {
+        command.exclude = excluded.length === 1 ? excluded[0] : excluded;
+      } else {
+        imported.unsupported.push(`${label}: exclude ${exclude}`);
+      }
+    }
+    if (passFilenames) command.pass_filenames = true;
+  }
+  return simplify(command);
+}
+
+/**
+ * Convert a pre-commit `files`/`exclude` regular expression to globs
+ *
+ * Handles the common forms: a file extension (`\.(ts|tsx)$`), optionally
+ * below a directory (`^src/.*\.py$`), and literal paths (`^deno\.json$`).
+ *
+ * @returns The globs, or undefined if the expression has no equivalent
+ */
+function regexToGlobs(pattern: string): string[] | undefined {
+  const literal = String.raw`(?:[\w-]|\\\.)+`;
+  const path = pattern.match(
+    new RegExp(String.raw`^\^(${literal}(?:/${literal})*)\$$`),
+  );
+  if (path) return [path[1].replaceAll("\\.", ".")];
+
+  const extension = pattern.match(
+    new RegExp(
+      String
+        .raw`^(?:\^((?:${literal}/)*)\.\*|(?:\.\*)?)\\\.(?:(\w+)|\((?:\?:)?(\w+(?:\|\w+)*)\))\$$`,
+    ),
+  );
+  if (!extension) return undefined;
+  const [, dir = "", single, several] = extension;
+  const suffix = single ?? `{${several.split("|").join(",")}}`;
+  if (dir === "") return [`*.${suffix}`];
+  return [`${dir.replaceAll("\\.", ".")}**/*.${suffix}`];
+}
+
+/**
+ * Convert pre-commit file types to globs
+ *
+ * @param match - Whether a file needs `any` of the types (`types_or`) or
+ *   `all` of them (`types`)
+ * @returns The globs (none for no filter), or undefined if a type is not
+ *   known or several are required at once
+ */
+function typesToGlobs(
+  types: unknown,
+  match: "any" | "all",
+): string[] | undefined {
+  if (!Array.isArray(types)) return [];
+  const known = types.filter((type) => type !== "file" && type !== "text");
+  if (match === "all" && known.length > 1) return undefined;
+  const globs: string[] = [];
+  for (const type of known) {
+    if (!Object.hasOwn(PRE_COMMIT_TYPES, type)) return undefined;
+    globs.push(...PRE_COMMIT_TYPES[type]);
+  }
+  return globs;
+}
+
+/**
+ * Split a hook script into commands, one per line
+ *
+ * @param fallback - Command to use instead when the script has multi-line
+ *   syntax such as `if` blocks
+ */
+function splitScript(script: string, fallback: () => string): string[] {
+  const lines = script.split("\n").map((line) => line.trim())
+    .filter((line) =>
+      line !== "" && !line.startsWith("#") &&
+      // Husky 4 to 8 load their helper in every script
+      !/husky\.sh/.test(line)
+    );
+  if (lines.some((line) => SHELL_BLOCK_PATTERN.test(line))) {
+    return [fallback()];
+  }
+  return lines;
+}
+
+/**
+ * `{args}` if the hook receives arguments, otherwise nothing
+ */
+function hookArgs(hookName: string): string {
+  const spec = getGitHookSpec(hookName);
+  return spec.args.length > 0 || spec.variadic ? "{args}" : "";
+}
+
+/**
+ * Append `{args}` to a command if the hook receives arguments
+ */
+function withArgs(command: string, hookName: string): string {
+  return `${command} ${hookArgs(hookName)}`.trimEnd();
+}
+
+/**
+ * Quote a word for the shell if needed
+ */
+function shellQuote(word: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(word)) return word;
+  return `'${word.replaceAll("'", `'\\''`)}'`;
+}
+
+/**
+ * A command object with only `run` as a plain string
+ */
+function simplify(command: CommandConfig): HookCommand {
+  return Object.keys(command).length === 1 ? command.run : command;
+}
+
+/**
+ * An import with nothing in it yet
+ */
+function emptyImport(source: ImportSource): ImportedConfig {
+  return { source, files: [], config: { hooks: {} }, unsupported: [] };
+}
+
+/**
+ * Whether a name is a git hook
+ */
+function isGitHook(name: string): boolean {
+  return Object.hasOwn(GIT_HOOKS, name);
+}
+
+/**
+ * Whether a value is a glob or a list of globs
+ */
+function isGlobs(value: unknown): value is string | string[] {
+  return typeof value === "string" ||
+    (Array.isArray(value) && value.every((item) => typeof item === "string"));
+}
+
+/**
+ * Read package.json, if there is one
+ */
+async function readPackageJson(
+  rootDir: string,
+): Promise<Record<string, unknown> | undefined> {
+  return asRecord(await readDocument(rootDir, "package.json"));
+}
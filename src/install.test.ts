@@ -0,0 +1,296 @@
+/**
+ * Tests for install
+ */
+
+import { expect } from "@std/expect";
+import { exists } from "@std/fs";
+import { install } from "./install.ts";
+import type { Logger } from "./logger.ts";
+import { generateHookScript } from "./script.ts";
+import { git, GIT_TEST_ENV, withTempRepo } from "./test-utils.ts";
+
+const CONFIG = `hooks:
+  pre-push:
+    - deno task test
+`;
+
+const DENO_JSON = `{ "tasks": { "fmt": "deno fmt", "test": "deno test" } }
+`;
+
+Deno.test("generateHookScript - chains backed up hook with arguments", () => {
+  const before = generateHookScript("pre-push", ["deno task test"], "before");
+  expect(before).toContain("# Chains existing hook: before");
+  expect(before.indexOf('pre-push.deno-hooks.bak" "$@"')).toBeLessThan(
+    before.indexOf("deno task test"),
+  );
+
+  const after = generateHookScript("pre-push", ["deno task test"], "after");
+  expect(after.indexOf('pre-push.deno-hooks.bak" "$@"')).toBeGreaterThan(
+    after.indexOf("deno task test"),
+  );
+});
+
+Deno.test("install - refuses to overwrite foreign hooks", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(`${root}/deno-hooks.yml`, CONFIG);
+    const hookPath = `${root}/.git/hooks/pre-push`;
+    await Deno.writeTextFile(hookPath, "#!/bin/sh\necho custom\n");
+
+    await expect(install({ yes: true, existing: "refuse" })).rejects.toThrow(
+      "Refusing to overwrite",
+    );
+    expect(await Deno.readTextFile(hookPath)).toContain("echo custom");
+    expect(await exists(`${hookPath}.deno-hooks.bak`)).toBe(false);
+  });
+});
+
+Deno.test("install - backs up and chains foreign hooks", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(`${root}/deno-hooks.yml`, CONFIG);
+    const hookPath = `${root}/.git/hooks/pre-push`;
+    await Deno.writeTextFile(hookPath, "#!/bin/sh\necho custom\n");
+
+    await install({ yes: true, existing: "chain-after" });
+    expect(await Deno.readTextFile(`${hookPath}.deno-hooks.bak`)).toContain(
+      "echo custom",
+    );
+    expect(await Deno.readTextFile(hookPath)).toContain(
+      "# Chains existing hook: after",
+    );
+
+    // A plain reinstall keeps the existing hook chained
+    await install({ yes: true });
+    expect(await Deno.readTextFile(hookPath)).toContain(
+      "# Chains existing hook: after",
+    );
+  });
+});
+
+Deno.test("install - reports what it wrote through the logger", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(`${root}/deno-hooks.yml`, CONFIG);
+    const messages: string[] = [];
+    const logger: Logger = {
+      info: (message) => messages.push(message),
+      warn: (message) => messages.push(`warn: ${message}`),
+    };
+
+    const first = await install({ yes: true, logger });
+    expect(first).toEqual({
+      hooksDir: `${root}/.git/hooks`,
+      configPaths: [`${root}/deno-hooks.yml`],
+      createdConfig: false,
+      dryRun: false,
+      hooks: ["pre-push"],
+      written: ["pre-push"],
+      skipped: [],
+      backedUp: [],
+    });
+    expect(messages).toContain("  Installed pre-push");
+
+    const second = await install({ yes: true, logger });
+    expect(second.written).toEqual([]);
+    expect(second.skipped).toEqual(["pre-push"]);
+  });
+});
+
+Deno.test("install - asks through the prompt callback", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(`${root}/deno-hooks.yml`, CONFIG);
+    await Deno.writeTextFile(`${root}/deno.json`, DENO_JSON);
+    const hookPath = `${root}/.git/hooks/pre-push`;
+    await Deno.writeTextFile(hookPath, "#!/bin/sh\necho custom\n");
+    const questions: string[] = [];
+    const logger: Logger = { info: () => {}, warn: () => {} };
+
+    const result = await install({
+      logger,
+      prompt: (message) => {
+        questions.push(message);
+        return "a";
+      },
+    });
+    expect(questions).toEqual(["\nChoose an option [B/c/a/r]"]);
+    expect(result.backedUp).toEqual(["pre-push"]);
+    expect(await Deno.readTextFile(hookPath)).toContain(
+      "# Chains existing hook: after",
+    );
+
+    // Non-interactive installs never ask
+    await Deno.remove(hookPath);
+    await Deno.remove(`${root}/deno-hooks.yml`);
+    const quiet = await install({
+      yes: true,
+      logger,
+      prompt: () => {
+        throw new Error("prompted");
+      },
+    });
+    expect(quiet.createdConfig).toBe(true);
+  });
+});
+
+Deno.test("install - dry run writes nothing", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      `${CONFIG}  pre-commit:\n    - deno task fmt\n`,
+    );
+    await Deno.writeTextFile(`${root}/deno.json`, DENO_JSON);
+    const hookPath = `${root}/.git/hooks/pre-push`;
+    await Deno.writeTextFile(hookPath, "#!/bin/sh\necho custom\n");
+
+    await install({ dryRun: true, existing: "chain-after" });
+    expect(await Deno.readTextFile(hookPath)).toBe("#!/bin/sh\necho custom\n");
+    expect(await exists(`${hookPath}.deno-hooks.bak`)).toBe(false);
+    expect(await exists(`${root}/.git/hooks/pre-commit`)).toBe(false);
+  });
+});
+
+Deno.test("install - rejects deno tasks that do not exist unless --yes", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      `${CONFIG}  pre-commit:\n    - deno task typecheck\n`,
+    );
+    await Deno.writeTextFile(
+      `${root}/deno.json`,
+      `{ "tasks": { "test": "deno test", "type-check": "deno check" } }\n`,
+    );
+    const warnings: string[] = [];
+    const logger: Logger = {
+      info: () => {},
+      warn: (message) => warnings.push(message),
+    };
+
+    await expect(install({ logger })).rejects.toThrow(
+      'pre-commit: task "typecheck" is not defined in deno.json (did you mean "type-check"?)',
+    );
+    expect(await exists(`${root}/.git/hooks/pre-commit`)).toBe(false);
+
+    const result = await install({ yes: true, logger });
+    expect(result.written).toEqual(["pre-push", "pre-commit"]);
+    expect(warnings).toEqual([
+      '⚠ pre-commit: task "typecheck" is not defined in deno.json (did you mean "type-check"?)',
+    ]);
+  });
+});
+
+Deno.test("install - stash hides unstaged changes from pre-commit commands", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    stash: true\n    commands:\n      - cat a.txt\n      - test ! -e untracked.txt\n",
+    );
+    await Deno.writeTextFile(`${root}/a.txt`, "base\n");
+    await git(["add", "."], root);
+    await git(["commit", "-q", "--no-verify", "-m", "init"], root);
+    await install({ yes: true });
+
+    await Deno.writeTextFile(`${root}/a.txt`, "base\nstaged\n");
+    await git(["add", "a.txt"], root);
+    await Deno.writeTextFile(`${root}/a.txt`, "base\nstaged\nunstaged\n");
+    await Deno.writeTextFile(`${root}/untracked.txt`, "new\n");
+
+    const { success, stdout } = await new Deno.Command("sh", {
+      args: [".git/hooks/pre-commit"],
+      cwd: root,
+      env: GIT_TEST_ENV,
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+
+    expect(success).toBe(true);
+    expect(new TextDecoder().decode(stdout)).toContain("base\nstaged\n✓");
+    expect(await Deno.readTextFile(`${root}/a.txt`)).toBe(
+      "base\nstaged\nunstaged\n",
+    );
+    expect(await Deno.readTextFile(`${root}/untracked.txt`)).toBe("new\n");
+  });
+});
+
+Deno.test("install - generated script stops commands on timeout", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - run: sleep 10; echo never\n      timeout: 0.5\n",
+    );
+    await install({ yes: true });
+
+    const start = performance.now();
+    const { code, stdout, stderr } = await new Deno.Command("sh", {
+      args: [".git/hooks/pre-commit"],
+      cwd: root,
+      env: GIT_TEST_ENV,
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+
+    expect(code).toBe(124);
+    expect(performance.now() - start).toBeLessThan(5000);
+    expect(new TextDecoder().decode(stdout)).not.toContain("never");
+    expect(new TextDecoder().decode(stderr)).toContain(
+      "✗ sleep 10; echo never timed out after 0.5s and was stopped",
+    );
+  });
+});
+
+Deno.test("install - generated script honors DENO_HOOKS_SKIP and DENO_HOOKS", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - run: exit 1\n      id: fail\n    - echo ran\n",
+    );
+    await install({ yes: true });
+
+    const runScript = async (env: Record<string, string>) => {
+      const { code, stdout } = await new Deno.Command("sh", {
+        args: [".git/hooks/pre-commit"],
+        cwd: root,
+        env: { ...GIT_TEST_ENV, ...env },
+        stdout: "piped",
+        stderr: "null",
+      }).output();
+      return { code, stdout: new TextDecoder().decode(stdout) };
+    };
+
+    expect((await runScript({})).code).toBe(1);
+
+    const skipped = await runScript({ DENO_HOOKS_SKIP: "lint, fail" });
+    expect(skipped.code).toBe(0);
+    expect(skipped.stdout).toContain(
+      "Skipped: exit 1 (fail is in DENO_HOOKS_SKIP)",
+    );
+    expect(skipped.stdout).toContain("ran");
+
+    const disabled = await runScript({ DENO_HOOKS: "0" });
+    expect(disabled.code).toBe(0);
+    expect(disabled.stdout).toContain("DENO_HOOKS=0");
+    expect(disabled.stdout).not.toContain("ran");
+  });
+});
+
+Deno.test("install - generated script runs every command with fail_fast: false", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    fail_fast: false\n    commands:\n      - run: exit 3\n        id: build\n      - run: echo test\n        needs: build\n      - echo lint\n",
+    );
+    await install({ yes: true });
+
+    const { code, stdout } = await new Deno.Command("sh", {
+      args: [".git/hooks/pre-commit"],
+      cwd: root,
+      env: GIT_TEST_ENV,
+      stdout: "piped",
+      stderr: "null",
+    }).output();
+
+    expect(code).toBe(1);
+    const output = new TextDecoder().decode(stdout);
+    expect(output).toContain("lint\n");
+    expect(output).toMatch(/✗ exit 3 +failed in \d+s \(exit code 3\)/);
+    expect(output).toContain("- echo test  not run (needs a failed command)");
+    expect(output).toMatch(/✓ echo lint +passed in \d+s/);
+  });
+});
@@ -16,6 +16,9 @@
  *
  * # Install with verbose output
  * deno run -A jsr:@theswanfactory/deno-hooks --verbose
+ *
+ * # Show what would change without writing anything
+ * deno run -A jsr:@theswanfactory/deno-hooks --dry-run
  * ```
  *
  * @example Programmatic usage
@@ -27,37 +30,126 @@
  * @module
  */
 
-import { ensureDir } from "@std/fs";
-import { loadConfig } from "./config.ts";
+import { ensureDir, exists } from "@std/fs";
+import {
+  applyHookDefaults,
+  describeCommand,
+  getHookConfig,
+  getInstallableHooks,
+  type HookEntry,
+  loadConfig,
+  type LoadConfigOptions,
+  SCHEMA_URL,
+} from "./config.ts";
+import { unifiedDiff } from "./diff.ts";
+import { getGitRoot, getHooksDir } from "./git.ts";
+import {
+  detectImportSources,
+  formatImportedConfig,
+  type ImportedConfig,
+  readImportSource,
+} from "./import.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import {
+  BACKUP_SUFFIX,
+  type ChainPosition,
+  generateHookScript,
+  isGeneratedHook,
+  parseHookHeader,
+} from "./script.ts";
+import { checkTasks } from "./tasks.ts";
+
+/**
+ * What to do when a hook not generated by deno-hooks is already installed
+ *
+ * - `refuse`: abort installation without touching any hook
+ * - `backup`: move the existing hook to `<hook>.deno-hooks.bak` and replace it
+ * - `chain-before`: back it up and run it before the configured commands
+ * - `chain-after`: back it up and run it after the configured commands
+ */
+export type ExistingHookMode =
+  | "refuse"
+  | "backup"
+  | "chain-before"
+  | "chain-after";
+
+/**
+ * All valid {@linkcode ExistingHookMode} values
+ */
+export const EXISTING_HOOK_MODES: readonly ExistingHookMode[] = [
+  "refuse",
+  "backup",
+  "chain-before",
+  "chain-after",
+];
 
 /**
  * Options for installing hooks
  */
 export interface InstallOptions {
-  /** Skip interactive prompts and use defaults */
+  /**
+   * Skip interactive prompts and use defaults. Unknown hook names in the
+   * configuration, and `deno task` commands whose task does not exist, are
+   * reported as warnings instead of errors.
+   */
   yes?: boolean;
+  /**
+   * Whether the user can be asked questions (default: true). Without
+   * prompts, the configuration is created when missing and foreign hooks
+   * are backed up, as with `yes`, but validation stays strict.
+   */
+  interactive?: boolean;
   /** Show detailed output during installation */
   verbose?: boolean;
+  /**
+   * How to handle existing hooks that deno-hooks did not generate.
+   * When omitted, the user is asked for each hook, or `backup` is used
+   * together with `yes` or without `interactive`.
+   */
+  existing?: ExistingHookMode;
+  /**
+   * Print each generated script as a diff against the installed hook
+   * instead of writing it. Nothing is created, backed up or overwritten;
+   * foreign hooks are reported with what would happen to them (`backup`
+   * unless `existing` says otherwise).
+   */
+  dryRun?: boolean;
+  /** Where progress and warnings go (default: the console) */
+  logger?: Logger;
+  /**
+   * Asks the user a question and returns the answer, or null without one
+   * (default: the global `prompt()`). Never called with `yes`, `dryRun` or
+   * `interactive: false`, and not for foreign hooks when `existing` is set.
+   */
+  prompt?: (message: string) => string | null;
 }
 
 /**
- * Get the git repository root directory
+ * Summary of what {@linkcode install} changed, or would change in a dry run
  */
-async function getGitRoot(): Promise<string> {
-  const command = new Deno.Command("git", {
-    args: ["rev-parse", "--show-toplevel"],
-    stdout: "piped",
-    stderr: "piped",
-  });
-
-  const { success, stdout, stderr } = await command.output();
-
-  if (!success) {
-    const error = new TextDecoder().decode(stderr);
-    throw new Error(`Failed to get git root: ${error}`);
-  }
-
-  return new TextDecoder().decode(stdout).trim();
+export interface InstallResult {
+  /** Hooks directory the scripts were written to */
+  hooksDir: string;
+  /**
+   * Configuration files that were read: the root configuration first, then
+   * those of monorepo packages
+   */
+  configPaths: string[];
+  /** Whether a default deno-hooks.yml was created */
+  createdConfig: boolean;
+  /** Whether this was a dry run that wrote nothing */
+  dryRun: boolean;
+  /** Names of the hooks installed or checked, in configuration order */
+  hooks: string[];
+  /** Names of hooks whose scripts were written (would change, in a dry run) */
+  written: string[];
+  /** Names of hooks left alone because their scripts were up to date */
+  skipped: string[];
+  /**
+   * Names of hooks not generated by deno-hooks that were moved to
+   * `<hook>.deno-hooks.bak` (would be, in a dry run)
+   */
+  backedUp: string[];
 }
 
 /**
@@ -65,67 +157,118 @@ async function getGitRoot(): Promise<string> {
  *
  * This function:
  * 1. Validates that configuration exists (deno-hooks.yml or deno.json)
- * 2. Creates .git/hooks/ directory if needed
+ * 2. Creates the hooks directory if needed (honoring `core.hooksPath`,
+ *    linked worktrees and submodules)
  * 3. Generates self-contained shell scripts for each configured hook
  * 4. Makes scripts executable (Unix/Linux/macOS)
  *
+ * Scripts that are already up to date are left alone. With `dryRun`, steps
+ * 2 to 4 only print what would change.
+ *
  * @param options - Installation options
+ * @returns The hooks written, skipped and backed up, and the configuration
+ *   files used
  * @throws {Error} If not in a git repository
  * @throws {Error} If no configuration found
  * @throws {Error} If configuration is invalid
+ * @throws {Error} If a command runs a `deno task` that does not exist
  *
  * @example
  * ```ts
- * import { install } from "@theswanfactory/deno-hooks";
+ * import { install, silentLogger } from "@theswanfactory/deno-hooks";
  *
- * await install();
+ * const { written, backedUp } = await install({
+ *   yes: true,
+ *   logger: silentLogger,
+ * });
+ * console.log(`Wrote ${written.length} hooks, backed up ${backedUp.length}`);
  * ```
  */
-export async function install(options: InstallOptions = {}): Promise<void> {
-  const { yes = false, verbose = false } = options;
-
-  if (verbose) {
-    console.log("Installing Deno Hooks with verbose output...\n");
+export async function install(
+  options: InstallOptions = {},
+): Promise<InstallResult> {
+  const {
+    yes = false,
+    interactive = true,
+    verbose = false,
+    dryRun = false,
+    logger = consoleLogger,
+  } = options;
+  const log = (message: string) => logger.info(message);
+
+  if (dryRun) {
+    log("Deno Hooks dry run: nothing will be written\n");
+  } else if (verbose) {
+    log("Installing Deno Hooks with verbose output...\n");
   } else {
-    console.log("Installing Deno Hooks...\n");
+    log("Installing Deno Hooks...\n");
   }
 
   // Get git root
   const gitRoot = await getGitRoot();
-  console.log(`Git root: ${gitRoot}`);
+  log(`Git root: ${gitRoot}`);
   if (verbose) {
-    console.log(`Current directory: ${Deno.cwd()}`);
+    log(`Current directory: ${Deno.cwd()}`);
   }
 
-  // Check if config exists, offer to create default
+  // Check if config exists, offer to create default. Unknown hook names are
+  // likely typos: they fail the install, or only warn with --yes. A
+  // TypeScript configuration is type-checked, since importing it does not
+  const configPaths: string[] = [];
+  const loadOptions: LoadConfigOptions = {
+    unknownHooks: yes ? "warn" : "error",
+    verbose,
+    typeCheck: true,
+    logger,
+    onFile: (file) => configPaths.push(file),
+  };
   let config;
+  let createdConfig = false;
   try {
-    config = await loadConfig(gitRoot);
+    config = await loadConfig(gitRoot, loadOptions);
     if (verbose) {
-      console.log("Configuration loaded successfully");
+      log("Configuration loaded successfully");
     }
   } catch (error) {
     if (
-      error instanceof Error && error.message.includes("No configuration found")
+      !dryRun && error instanceof Error &&
+      error.message.includes("No configuration found")
     ) {
+      // Start from another hook manager's setup when there is exactly one
+      const imported = await findImportedConfig(gitRoot, logger);
+
       // Determine whether to create default config
       let shouldCreate = false;
-      if (yes) {
+      if (yes || !interactive) {
         shouldCreate = true;
       } else {
-        shouldCreate = promptCreateDefaultConfig();
+        shouldCreate = promptCreateDefaultConfig(
+          logger,
+          options.prompt,
+          imported,
+        );
       }
 
       if (shouldCreate) {
         if (verbose) {
-          console.log("Creating default configuration file...");
+          log("Creating default configuration file...");
+        }
+        await createDefaultConfig(gitRoot, imported);
+        config = await loadConfig(gitRoot, loadOptions);
+        createdConfig = true;
+        if (imported) {
+          log(
+            `\nCreated deno-hooks.yml from ${imported.files.join(", ")}`,
+          );
+          for (const note of imported.unsupported) {
+            logger.warn(`  ⚠ Not imported: ${note}`);
+          }
+        } else {
+          log("\nCreated deno-hooks.yml with default configuration");
         }
-        await createDefaultConfig(gitRoot);
-        config = await loadConfig(gitRoot);
-        console.log("\nCreated deno-hooks.yml with default configuration");
       } else {
         throw new Error(
-          "No configuration found. Create deno-hooks.yml or add deno.json config",
+          "No configuration found. Create deno-hooks.yml or deno-hooks.config.ts, or add deno.json config",
         );
       }
     } else {
@@ -133,61 +276,273 @@ export async function install(options: InstallOptions = {}): Promise<void> {
     }
   }
 
-  const hookNames = Object.keys(config.hooks);
+  // A `deno task` that does not exist would only fail on the first commit.
+  // Like unknown hook names, missing tasks fail the install, or only warn
+  // with --yes or a configuration that was just created
+  const taskProblems = await checkTasks(config, gitRoot);
+  if (taskProblems.length > 0 && !yes && !createdConfig) {
+    throw new Error(
+      `Commands run deno tasks that do not exist:\n${
+        taskProblems.map(({ message }) => `  ${message}`).join("\n")
+      }\nAdd the tasks to deno.json, or install with --yes to only warn`,
+    );
+  }
+  for (const { message } of taskProblems) {
+    logger.warn(`⚠ ${message}`);
+  }
+
+  const hookNames = getInstallableHooks(config);
 
   // Show what hooks will be installed
-  console.log(`\nInstalling ${hookNames.length} hook(s):\n`);
+  log(
+    `\n${
+      dryRun ? "Would install" : "Installing"
+    } ${hookNames.length} hook(s):\n`,
+  );
   for (const hookName of hookNames) {
-    const commands = config.hooks[hookName];
-    console.log(`${hookName}:`);
-    for (const command of commands) {
-      console.log(`  - ${command}`);
+    const hook = getHookConfig(config, hookName);
+    const notes: string[] = [];
+    if (hook.stash) notes.push("stashes unstaged changes");
+    if (hook.parallel) {
+      notes.push(
+        `parallel${hook.concurrency ? `, ${hook.concurrency} at a time` : ""}`,
+      );
+    }
+    if (hook.fail_fast === false) notes.push("runs all commands");
+    log(`${hookName}:${notes.length > 0 ? ` (${notes.join("; ")})` : ""}`);
+    for (const command of hook.commands) {
+      log(`  - ${describeCommand(applyHookDefaults(hook, command))}`);
     }
   }
 
-  // Ensure .git/hooks/ exists
-  const hooksDir = `${gitRoot}/.git/hooks`;
-  await ensureDir(hooksDir);
+  // Ensure the hooks directory git reads from exists
+  const { path: hooksDir, reason } = await getHooksDir(gitRoot);
+  if (!dryRun) await ensureDir(hooksDir);
   if (verbose) {
-    console.log(`\nHooks directory: ${hooksDir}`);
+    log(`\nHooks directory: ${hooksDir}`);
+    log(`  Chosen because: ${reason}`);
+  }
+
+  // Decide what happens to foreign hooks before writing anything, so a
+  // refusal never leaves a half-installed set of hooks behind
+  const { chains, backups } = await resolveExistingHooks(
+    hooksDir,
+    hookNames,
+    options,
+  );
+
+  const result: InstallResult = {
+    hooksDir,
+    configPaths,
+    createdConfig,
+    dryRun,
+    hooks: hookNames,
+    written: [],
+    skipped: [],
+    backedUp: backups,
+  };
+
+  if (dryRun) {
+    log("");
+    for (const hookName of hookNames) {
+      const changes = await previewHook(
+        hooksDir,
+        hookName,
+        config.hooks[hookName],
+        {
+          chain: chains.get(hookName),
+          foreign: backups.includes(hookName),
+          logger,
+        },
+      );
+      (changes ? result.written : result.skipped).push(hookName);
+    }
+    log(
+      `\nDry run complete: ${result.written.length} of ${hookNames.length} hook(s) would change`,
+    );
+    return result;
   }
 
+  await backUpHooks(hooksDir, backups, chains, { verbose, logger });
+
   // Install each hook
-  console.log();
+  log("");
   for (const hookName of hookNames) {
-    await installHook(hooksDir, hookName, config.hooks[hookName], verbose);
+    const written = await installHook(
+      hooksDir,
+      hookName,
+      config.hooks[hookName],
+      { verbose, chain: chains.get(hookName), logger },
+    );
+    (written ? result.written : result.skipped).push(hookName);
   }
 
-  console.log("\nInstallation complete!");
-  console.log("\nHooks will run automatically on commit/push.");
-  console.log("To customize, edit deno-hooks.yml in your project root.");
+  log("\nInstallation complete!");
+  log("\nHooks will run automatically on commit/push.");
+  log("To customize, edit deno-hooks.yml in your project root.");
   if (verbose) {
-    console.log(
-      "\nTip: You can test hooks manually by running them directly from .git/hooks/",
+    log(
+      `\nTip: You can test hooks manually by running them directly from ${hooksDir}/`,
     );
   }
+
+  return result;
+}
+
+/**
+ * Work out how each configured hook relates to what is already installed
+ *
+ * Foreign hooks (not generated by deno-hooks) are to be backed up according
+ * to the chosen {@linkcode ExistingHookMode}. Hooks that are already ours
+ * keep chaining a previous backup unless a different mode is requested.
+ * Nothing is moved yet; see {@linkcode backUpHooks}.
+ *
+ * @returns The chain position for every hook that should run its backup,
+ *   and the foreign hooks to back up
+ * @throws {Error} If a foreign hook exists and the mode is `refuse`
+ */
+async function resolveExistingHooks(
+  hooksDir: string,
+  hookNames: string[],
+  options: InstallOptions,
+): Promise<{ chains: Map<string, ChainPosition>; backups: string[] }> {
+  const {
+    yes = false,
+    interactive = true,
+    dryRun = false,
+    logger = consoleLogger,
+  } = options;
+  const chains = new Map<string, ChainPosition>();
+
+  const foreign: string[] = [];
+  for (const hookName of hookNames) {
+    const hookPath = `${hooksDir}/${hookName}`;
+    if (await isGeneratedHook(hookPath)) {
+      if (!(await exists(`${hookPath}${BACKUP_SUFFIX}`))) continue;
+      const mode = options.existing;
+      if (mode === "chain-before" || mode === "chain-after") {
+        chains.set(hookName, chainPositionOf(mode));
+      } else if (mode !== "backup") {
+        const previous = parseHookHeader(
+          await Deno.readTextFile(hookPath),
+        ).chain;
+        if (previous) chains.set(hookName, previous);
+      }
+    } else if (await exists(hookPath)) {
+      foreign.push(hookName);
+    }
+  }
+
+  if (foreign.length === 0) {
+    return { chains, backups: [] };
+  }
+
+  // Collect every decision first so nothing is moved if any hook is refused
+  const modes = new Map<string, ExistingHookMode>();
+  for (const hookName of foreign) {
+    modes.set(
+      hookName,
+      options.existing ??
+        (yes || dryRun || !interactive
+          ? "backup"
+          : promptExistingHook(hookName, logger, options.prompt)),
+    );
+  }
+
+  const refused = foreign.filter((hookName) =>
+    modes.get(hookName) === "refuse"
+  );
+  if (refused.length > 0) {
+    throw new Error(
+      `Refusing to overwrite existing hooks not generated by deno-hooks: ${
+        refused.join(", ")
+      }. Re-run with --existing=backup, --existing=chain-before or --existing=chain-after`,
+    );
+  }
+
+  for (const hookName of foreign) {
+    const backupPath = `${hooksDir}/${hookName}${BACKUP_SUFFIX}`;
+    if (await exists(backupPath)) {
+      throw new Error(
+        `Cannot back up ${hookName}: ${backupPath} already exists. Move it away and re-run`,
+      );
+    }
+  }
+
+  for (const hookName of foreign) {
+    const mode = modes.get(hookName)!;
+    if (mode === "chain-before" || mode === "chain-after") {
+      chains.set(hookName, chainPositionOf(mode));
+    }
+  }
+
+  return { chains, backups: foreign };
+}
+
+/**
+ * Move foreign hooks to `<hook>.deno-hooks.bak`
+ */
+async function backUpHooks(
+  hooksDir: string,
+  backups: string[],
+  chains: Map<string, ChainPosition>,
+  options: { verbose: boolean; logger: Logger },
+): Promise<void> {
+  const { verbose, logger } = options;
+  for (const hookName of backups) {
+    const hookPath = `${hooksDir}/${hookName}`;
+    const backupPath = `${hookPath}${BACKUP_SUFFIX}`;
+
+    await Deno.rename(hookPath, backupPath);
+    logger.info(`\nBacked up existing ${hookName} to ${backupPath}`);
+    const chain = chains.get(hookName);
+    if (chain && verbose) {
+      logger.info(`  It will run ${chain} the configured commands`);
+    }
+  }
+}
+
+/**
+ * Options for {@linkcode installHook}
+ */
+interface InstallHookOptions {
+  /** Show detailed output */
+  verbose?: boolean;
+  /** Run the backed up hook before or after the configured commands */
+  chain?: ChainPosition;
+  /** Where progress goes */
+  logger?: Logger;
 }
 
 /**
  * Install a single git hook
+ *
+ * @returns Whether the script was written; false if it was up to date
  */
 async function installHook(
   hooksDir: string,
   hookName: string,
-  commands: string[],
-  verbose = false,
-): Promise<void> {
+  entry: HookEntry,
+  options: InstallHookOptions = {},
+): Promise<boolean> {
+  const { verbose = false, chain, logger = consoleLogger } = options;
+  const log = (message: string) => logger.info(message);
   const hookPath = `${hooksDir}/${hookName}`;
 
   if (verbose) {
-    console.log(`  Installing ${hookName}...`);
+    log(`  Installing ${hookName}...`);
   }
 
   // Generate shell script
-  const script = generateHookScript(commands);
+  const script = generateHookScript(hookName, entry, chain);
+
+  if (await isInstalled(hookPath, script)) {
+    log(`  ${hookName} is up to date`);
+    return false;
+  }
 
   if (verbose) {
-    console.log(`    Writing to: ${hookPath}`);
+    log(`    Writing to: ${hookPath}`);
   }
 
   // Write script
@@ -197,127 +552,220 @@ async function installHook(
   if (Deno.build.os !== "windows") {
     await Deno.chmod(hookPath, 0o755);
     if (verbose) {
-      console.log(`    Set executable permissions (0755)`);
+      log(`    Set executable permissions (0755)`);
     }
   }
 
-  console.log(`  Installed ${hookName}`);
+  if (chain) {
+    log(`  Installed ${hookName} (chained ${chain} existing hook)`);
+  } else {
+    log(`  Installed ${hookName}`);
+  }
+  return true;
 }
 
 /**
- * Generate self-contained shell script for a hook
+ * Whether a hook file already holds the script and is executable
  */
-function generateHookScript(commands: string[]): string {
-  const commandLines = commands.map((cmd) => cmd).join("\n");
+async function isInstalled(hookPath: string, script: string): Promise<boolean> {
+  try {
+    const info = await Deno.stat(hookPath);
+    const executable = Deno.build.os === "windows" ||
+      ((info.mode ?? 0) & 0o111) !== 0;
+    return executable && await Deno.readTextFile(hookPath) === script;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
 
-  return `#!/bin/sh
-# Generated by deno-hooks - DO NOT EDIT
-# To update, run: deno task hooks
+/**
+ * Options for {@linkcode previewHook}
+ */
+interface PreviewHookOptions {
+  /** Run the backed up hook before or after the configured commands */
+  chain?: ChainPosition;
+  /** Whether the installed hook is foreign and would be backed up */
+  foreign?: boolean;
+  /** Where the preview goes */
+  logger?: Logger;
+}
 
-set -e
+/**
+ * Print how installing a single git hook would change the hooks directory
+ *
+ * @returns Whether the installed hook differs from the generated script
+ */
+async function previewHook(
+  hooksDir: string,
+  hookName: string,
+  entry: HookEntry,
+  options: PreviewHookOptions = {},
+): Promise<boolean> {
+  const { chain, foreign = false, logger = consoleLogger } = options;
+  const hookPath = `${hooksDir}/${hookName}`;
+  const script = generateHookScript(hookName, entry, chain);
 
-${commandLines}
+  let installed: string | undefined;
+  try {
+    installed = await Deno.readTextFile(hookPath);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
 
-echo "✓ All hooks passed"
-`;
+  if (installed === script) {
+    logger.info(`  ${hookName}: up to date`);
+    return false;
+  }
+  if (foreign) {
+    logger.info(
+      `  ⚠ ${hookName}: existing hook not generated by deno-hooks would be moved to ${hookName}${BACKUP_SUFFIX}${
+        chain ? ` and run ${chain} the configured commands` : ""
+      }`,
+    );
+  } else {
+    logger.info(
+      `  ${hookName}: would be ${
+        installed === undefined ? "created" : "updated"
+      }`,
+    );
+  }
+  logger.info(
+    unifiedDiff(installed ?? "", script, {
+      oldLabel: installed === undefined ? "/dev/null" : hookPath,
+      newLabel: hookPath,
+    }),
+  );
+  return true;
 }
 
 /**
- * Prompt user to create default configuration
+ * Map a chaining {@linkcode ExistingHookMode} to its position
  */
-function promptCreateDefaultConfig(): boolean {
-  console.log("\nNo configuration file found");
-  console.log(
-    "\nWould you like to create a default deno-hooks.yml with basic hooks?",
-  );
-  console.log("  - pre-commit: deno task fmt, deno task lint");
-  console.log("  - pre-push: deno task test");
-
-  const response = prompt("\nCreate default configuration? [Y/n]");
-  return !response || response.toLowerCase() === "y" ||
-    response.toLowerCase() === "yes";
+function chainPositionOf(
+  mode: "chain-before" | "chain-after",
+): ChainPosition {
+  return mode === "chain-before" ? "before" : "after";
 }
 
 /**
- * Create default configuration file
+ * Ask the user what to do with a hook deno-hooks did not generate
  */
-async function createDefaultConfig(gitRoot: string): Promise<void> {
-  const defaultConfig = `# Deno Hooks Configuration
-# Learn more: https://jsr.io/@theswanfactory/deno-hooks
-
-hooks:
-  pre-commit:
-    - deno task fmt
-    - deno task lint
-
-  pre-push:
-    - deno task test
-`;
-
-  const configPath = `${gitRoot}/deno-hooks.yml`;
-  await Deno.writeTextFile(configPath, defaultConfig);
+function promptExistingHook(
+  hookName: string,
+  logger: Logger,
+  ask: (message: string) => string | null = prompt,
+): ExistingHookMode {
+  logger.info(
+    `\nFound an existing ${hookName} hook not generated by deno-hooks`,
+  );
+  logger.info("  [b] back it up and replace it");
+  logger.info("  [c] back it up and run it before the configured commands");
+  logger.info("  [a] back it up and run it after the configured commands");
+  logger.info("  [r] refuse and abort installation");
+
+  const response = ask("\nChoose an option [B/c/a/r]")?.toLowerCase();
+  switch (response) {
+    case "c":
+      return "chain-before";
+    case "a":
+      return "chain-after";
+    case "r":
+      return "refuse";
+    default:
+      return "backup";
+  }
 }
 
 /**
- * Parse command line arguments
+ * Prompt user to create default configuration
  */
-function parseArgs(args: string[]): InstallOptions {
-  const options: InstallOptions = {};
-
-  for (const arg of args) {
-    if (arg === "--yes" || arg === "-y") {
-      options.yes = true;
-    } else if (arg === "--verbose" || arg === "-v") {
-      options.verbose = true;
-    } else if (arg === "--help" || arg === "-h") {
-      printHelp();
-      Deno.exit(0);
+function promptCreateDefaultConfig(
+  logger: Logger,
+  ask: (message: string) => string | null = prompt,
+  imported?: ImportedConfig,
+): boolean {
+  logger.info("\nNo configuration file found");
+  if (imported) {
+    logger.info(
+      `\nWould you like to create deno-hooks.yml from your ${imported.source} setup (${
+        imported.files.join(", ")
+      })?`,
+    );
+    for (const hookName of Object.keys(imported.config.hooks)) {
+      const { commands } = getHookConfig(imported.config, hookName);
+      logger.info(
+        `  - ${hookName}: ${commands.map(describeCommand).join(", ")}`,
+      );
     }
+  } else {
+    logger.info(
+      "\nWould you like to create a default deno-hooks.yml with basic hooks?",
+    );
+    logger.info("  - pre-commit: deno task fmt, deno task lint");
+    logger.info("  - pre-push: deno task test");
   }
 
-  return options;
+  const response = ask("\nCreate default configuration? [Y/n]");
+  return !response || response.toLowerCase() === "y" ||
+    response.toLowerCase() === "yes";
 }
 
 /**
- * Print CLI help message
+ * Read the setup of the hook manager the repository uses, if it uses
+ * exactly one that {@linkcode readImportSource} understands
+ *
+ * A setup that cannot be read is reported and ignored, so the default
+ * configuration is offered instead.
  */
-function printHelp(): void {
-  console.log(`
-Deno Hooks - Git hooks for Deno projects
-
-USAGE:
-  deno run -A deno-hooks [OPTIONS]
+async function findImportedConfig(
+  gitRoot: string,
+  logger: Logger,
+): Promise<ImportedConfig | undefined> {
+  const sources = await detectImportSources(gitRoot);
+  if (sources.length !== 1) return undefined;
+  try {
+    const imported = await readImportSource(gitRoot, sources[0]);
+    return Object.keys(imported.config.hooks).length > 0 ? imported : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`⚠ Could not import the ${sources[0]} setup: ${message}`);
+    return undefined;
+  }
+}
 
-OPTIONS:
-  --yes, -y       Skip interactive prompts (use defaults)
-  --verbose, -v   Show detailed output during installation
-  --help, -h      Show this help message
+/**
+ * Create default configuration file, from another hook manager's setup if
+ * one was imported
+ */
+async function createDefaultConfig(
+  gitRoot: string,
+  imported?: ImportedConfig,
+): Promise<void> {
+  const configPath = `${gitRoot}/deno-hooks.yml`;
+  if (imported) {
+    await Deno.writeTextFile(configPath, formatImportedConfig(imported));
+    return;
+  }
 
-EXAMPLES:
-  # Install hooks (interactive)
-  deno run -A jsr:@theswanfactory/deno-hooks
+  const defaultConfig = `# yaml-language-server: $schema=${SCHEMA_URL}
+# Deno Hooks Configuration
+# Learn more: https://jsr.io/@theswanfactory/deno-hooks
 
-  # Install with automatic yes
-  deno run -A jsr:@theswanfactory/deno-hooks --yes
+hooks:
+  pre-commit:
+    - deno task fmt
+    - deno task lint
 
-  # Install with verbose output
-  deno run -A jsr:@theswanfactory/deno-hooks --verbose
+  pre-push:
+    - deno task test
+`;
 
-LEARN MORE:
-  https://jsr.io/@theswanfactory/deno-hooks
-`);
+  await Deno.writeTextFile(configPath, defaultConfig);
 }
 
 // Run if called directly
 if (import.meta.main) {
-  try {
-    const options = parseArgs(Deno.args);
-    await install(options);
-  } catch (error) {
-    console.error(
-      "\nInstallation failed:",
-      error instanceof Error ? error.message : String(error),
-    );
-    Deno.exit(1);
-  }
+  const { main } = await import("./cli.ts");
+  await main(Deno.args);
 }
@@ -0,0 +1,93 @@
+/**
+ * Tests for locating configuration paths in source files
+ */
+
+import { expect } from "@std/expect";
+import {
+  findJsonValueSpan,
+  findYamlItemSpan,
+  locateInJson,
+  locateInYaml,
+} from "./locate.ts";
+
+Deno.test("locateInYaml - finds keys and sequence items", () => {
+  const source = `# comment
+hooks:
+  pre-commit:
+    - deno lint
+    - run: deno fmt
+      files: "*.ts"
+  pre-push:
+  - deno task test
+  commit-msg: ["check"]
+`;
+
+  expect(locateInYaml(source, ["hooks"])).toEqual({ line: 2, column: 1 });
+  expect(locateInYaml(source, ["hooks", "pre-commit", 0])).toEqual({
+    line: 4,
+    column: 5,
+  });
+  expect(locateInYaml(source, ["hooks", "pre-commit", 1, "run"])).toEqual({
+    line: 5,
+    column: 7,
+  });
+  expect(locateInYaml(source, ["hooks", "pre-commit", 1, "files"])).toEqual({
+    line: 6,
+    column: 7,
+  });
+  expect(locateInYaml(source, ["hooks", "pre-push", 0])).toEqual({
+    line: 8,
+    column: 3,
+  });
+  // Flow collections resolve to the enclosing key
+  expect(locateInYaml(source, ["hooks", "commit-msg", 0])).toEqual({
+    line: 9,
+    column: 3,
+  });
+});
+
+Deno.test("locateInJson - finds keys and array items", () => {
+  const source = `{
+  "name": "x",
+  "deno-hooks": {
+    "hooks": { "pre-commit": ["a", { "run": "b" }] }
+  }
+}`;
+
+  expect(locateInJson(source, ["deno-hooks", "hooks", "pre-commit", 1, "run"]))
+    .toEqual({ line: 4, column: 38 });
+  expect(locateInJson(source, ["deno-hooks", "missing"])).toEqual({
+    line: 3,
+    column: 3,
+  });
+});
+
+Deno.test("findYamlItemSpan - covers an item's lines without trailing comments", () => {
+  const source = `hooks:
+  pre-commit:
+    - run: deno fmt
+      files: "*.ts"
+    # next
+    - deno lint
+  commit-msg: ["check"]
+`;
+
+  expect(findYamlItemSpan(source, ["hooks", "pre-commit", 0])).toEqual({
+    start: 2,
+    end: 4,
+    column: 4,
+  });
+  expect(findYamlItemSpan(source, ["hooks", "pre-commit", 1])).toEqual({
+    start: 5,
+    end: 6,
+    column: 4,
+  });
+  expect(findYamlItemSpan(source, ["hooks", "commit-msg", 0])).toBeUndefined();
+});
+
+Deno.test("findJsonValueSpan - covers a value", () => {
+  const source = '{ "hooks": { "pre-commit": ["a", { "run": "b" }] } }';
+  const span = findJsonValueSpan(source, ["hooks", "pre-commit", 1])!;
+  expect(source.slice(span.start, span.end)).toBe('{ "run": "b" }');
+  expect(findJsonValueSpan(source, ["hooks", "pre-push"])).toBeUndefined();
+});
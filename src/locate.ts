@@ -0,0 +1,345 @@
+/**
+ * Map configuration paths back to lines and columns in the source file
+ *
+ * The YAML and JSON parsers only return plain values, so validation works
+ * on paths like `["hooks", "pre-commit", 0, "run"]`. These helpers find
+ * where such a path is written. YAML is located by its block structure;
+ * inside flow collections (`[a, b]`, `{a: 1}`) the position of the
+ * enclosing key is returned instead.
+ *
+ * @module
+ */
+
+/**
+ * Path to a value in the configuration: object keys and array indices
+ */
+export type ConfigPath = (string | number)[];
+
+/**
+ * 1-based position in a source file
+ */
+export interface SourceLocation {
+  /** Line number, starting at 1 */
+  line: number;
+  /** Column number, starting at 1 */
+  column: number;
+}
+
+/**
+ * A YAML block node: where it starts and which lines hold its children
+ */
+interface YamlNode {
+  /** 0-based line of the key or sequence dash */
+  line: number;
+  /** 0-based column of the key or sequence dash */
+  column: number;
+  /** Children must be indented further than this column */
+  indent: number;
+  /** First line that may hold a child */
+  start: number;
+  /** Line after the last child */
+  end: number;
+  /** Whether the node is a sequence item, whose first child follows the dash */
+  item: boolean;
+}
+
+/**
+ * Find where a path is written in a YAML document
+ *
+ * @param source - The YAML text
+ * @param path - Path to the value
+ * @returns The location of the deepest part of the path that was found
+ */
+export function locateInYaml(source: string, path: ConfigPath): SourceLocation {
+  const lines = source.split("\n");
+  let node: YamlNode = {
+    line: 0,
+    column: 0,
+    indent: -1,
+    start: 0,
+    end: lines.length,
+    item: false,
+  };
+  let found = false;
+
+  for (const segment of path) {
+    const child = typeof segment === "number"
+      ? findYamlItem(lines, node, segment)
+      : findYamlKey(lines, node, segment);
+    if (!child) break;
+    node = child;
+    found = true;
+  }
+
+  return found
+    ? { line: node.line + 1, column: node.column + 1 }
+    : { line: 1, column: 1 };
+}
+
+/**
+ * Lines of a YAML block sequence item, for rewriting it in place
+ */
+export interface YamlItemSpan {
+  /** 0-based line of the item's dash */
+  start: number;
+  /**
+   * 0-based line after the item's last line; blank and comment lines after
+   * the item's content are left out
+   */
+  end: number;
+  /** 0-based column of the dash */
+  column: number;
+}
+
+/**
+ * Find the lines of a block sequence item in a YAML document
+ *
+ * @param source - The YAML text
+ * @param path - Path to the item; its last segment is the index
+ * @returns The item's lines, or undefined if the path is not written in
+ *   block style
+ */
+export function findYamlItemSpan(
+  source: string,
+  path: ConfigPath,
+): YamlItemSpan | undefined {
+  const lines = source.split("\n");
+  let node: YamlNode = {
+    line: 0,
+    column: 0,
+    indent: -1,
+    start: 0,
+    end: lines.length,
+    item: false,
+  };
+  for (const segment of path) {
+    const child = typeof segment === "number"
+      ? findYamlItem(lines, node, segment)
+      : findYamlKey(lines, node, segment);
+    if (!child) return undefined;
+    node = child;
+  }
+  if (!node.item) return undefined;
+
+  let end = node.end;
+  while (end > node.line + 1 && indentOf(lines[end - 1]) === undefined) end--;
+  return { start: node.line, end, column: node.column };
+}
+
+/**
+ * Indentation of a line, or undefined for blank and comment lines
+ */
+function indentOf(line: string): number | undefined {
+  const column = line.search(/\S/);
+  if (column === -1 || line[column] === "#") return undefined;
+  return column;
+}
+
+/**
+ * Line after the last line that belongs to a block starting at `line`
+ *
+ * Sequence items may sit at the same indentation as their parent key.
+ */
+function blockEnd(
+  lines: string[],
+  line: number,
+  indent: number,
+  end: number,
+  allowDashes: boolean,
+): number {
+  for (let i = line + 1; i < end; i++) {
+    const column = indentOf(lines[i]);
+    if (column === undefined || column > indent) continue;
+    if (allowDashes && column === indent && /^\s*-(\s|$)/.test(lines[i])) {
+      continue;
+    }
+    return i;
+  }
+  return end;
+}
+
+/**
+ * Find a mapping key among the children of a node
+ */
+function findYamlKey(
+  lines: string[],
+  node: YamlNode,
+  key: string,
+): YamlNode | undefined {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`^(["']?)${escaped}\\1\\s*:(\\s|$)`);
+  let level: number | undefined;
+
+  for (let i = node.start; i < node.end; i++) {
+    let column = indentOf(lines[i]);
+    if (column === undefined) continue;
+    // On a sequence item's own line the first key follows the dash
+    if (node.item && i === node.line) {
+      const after = lines[i].slice(node.column + 1).search(/\S/);
+      if (after === -1) continue;
+      column = node.column + 1 + after;
+    }
+    if (column <= node.indent) continue;
+    level ??= column;
+    if (column !== level) continue;
+    if (pattern.test(lines[i].slice(column))) {
+      return {
+        line: i,
+        column,
+        indent: column,
+        start: i + 1,
+        end: blockEnd(lines, i, column, node.end, true),
+        item: false,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find a sequence item among the children of a node
+ */
+function findYamlItem(
+  lines: string[],
+  node: YamlNode,
+  index: number,
+): YamlNode | undefined {
+  let level: number | undefined;
+  let count = 0;
+
+  for (let i = node.start; i < node.end; i++) {
+    const column = indentOf(lines[i]);
+    if (column === undefined || column < node.indent) continue;
+    if (!/^-(\s|$)/.test(lines[i].slice(column))) continue;
+    level ??= column;
+    if (column !== level) continue;
+    if (count++ === index) {
+      return {
+        line: i,
+        column,
+        indent: column,
+        start: i,
+        end: blockEnd(lines, i, column, node.end, false),
+        item: true,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find where a path is written in a JSON document
+ *
+ * @param source - The JSON text
+ * @param path - Path to the value
+ * @returns The location of the deepest part of the path that was found
+ */
+export function locateInJson(source: string, path: ConfigPath): SourceLocation {
+  let offset = 0;
+  let target = skipJsonWhitespace(source, 0);
+
+  // Walk down the path, skipping over values that are not on it
+  for (const segment of path) {
+    const position = findJsonMember(source, target, segment);
+    if (position === undefined) break;
+    offset = position.member;
+    target = position.value;
+  }
+
+  const before = source.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+}
+
+/**
+ * Find the text of a value in a JSON document, for rewriting it in place
+ *
+ * @param source - The JSON text
+ * @param path - Path to the value
+ * @returns Offsets of the value's first character and of the character
+ *   after it, or undefined if the path does not exist
+ */
+export function findJsonValueSpan(
+  source: string,
+  path: ConfigPath,
+): { start: number; end: number } | undefined {
+  let target = skipJsonWhitespace(source, 0);
+  for (const segment of path) {
+    const position = findJsonMember(source, target, segment);
+    if (position === undefined) return undefined;
+    target = position.value;
+  }
+  return { start: target, end: skipJsonValue(source, target) };
+}
+
+/**
+ * Find a key or index in the JSON object or array starting at `start`
+ */
+function findJsonMember(
+  source: string,
+  start: number,
+  segment: string | number,
+): { member: number; value: number } | undefined {
+  const open = source[start];
+  if (open !== "{" && open !== "[") return undefined;
+
+  let i = skipJsonWhitespace(source, start + 1);
+  let index = 0;
+  while (i < source.length && source[i] !== "}" && source[i] !== "]") {
+    const member = i;
+    let matches = false;
+    if (open === "{") {
+      const keyEnd = skipJsonValue(source, i);
+      matches = JSON.parse(source.slice(i, keyEnd)) === segment;
+      i = skipJsonWhitespace(source, keyEnd);
+      i = skipJsonWhitespace(source, i + 1); // ":"
+    } else {
+      matches = index === segment;
+    }
+    if (matches) return { member, value: i };
+    i = skipJsonWhitespace(source, skipJsonValue(source, i));
+    if (source[i] === ",") i = skipJsonWhitespace(source, i + 1);
+    index++;
+  }
+  return undefined;
+}
+
+/**
+ * Offset after the JSON value starting at `start`
+ */
+function skipJsonValue(source: string, start: number): number {
+  if (source[start] === '"') {
+    let i = start + 1;
+    while (i < source.length && source[i] !== '"') {
+      i += source[i] === "\\" ? 2 : 1;
+    }
+    return i + 1;
+  }
+  if (source[start] === "{" || source[start] === "[") {
+    let depth = 0;
+    let i = start;
+    while (i < source.length) {
+      const char = source[i];
+      if (char === '"') {
+        i = skipJsonValue(source, i);
+        continue;
+      }
+      if (char === "{" || char === "[") depth++;
+      if (char === "}" || char === "]") depth--;
+      i++;
+      if (depth === 0) return i;
+    }
+    return i;
+  }
+  const match = source.slice(start).match(/^[^\s,}\]]+/);
+  return start + (match?.[0].length ?? 1);
+}
+
+/**
+ * Offset of the next non-whitespace character
+ */
+function skipJsonWhitespace(source: string, start: number): number {
+  let i = start;
+  while (i < source.length && /\s/.test(source[i])) i++;
+  return i;
+}
@@ -0,0 +1,43 @@
+/**
+ * Output of the programmatic API
+ *
+ * {@linkcode install} and {@linkcode loadConfig} report progress through a
+ * {@linkcode Logger} so tools embedding them can capture, redirect or
+ * silence their output.
+ *
+ * @example
+ * ```ts
+ * import { install, silentLogger } from "@theswanfactory/deno-hooks";
+ *
+ * const result = await install({ yes: true, logger: silentLogger });
+ * console.log(result.written);
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * Receives the messages of an operation
+ */
+export interface Logger {
+  /** Progress and results; an empty message is a blank line */
+  info(message: string): void;
+  /** Problems that do not stop the operation */
+  warn(message: string): void;
+}
+
+/**
+ * Logger writing to the console: `info` to stdout, `warn` to stderr
+ */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+};
+
+/**
+ * Logger discarding every message
+ */
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+};
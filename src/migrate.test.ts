@@ -0,0 +1,164 @@
+/**
+ * Tests for migrating v0.2.x configurations
+ */
+
+import { expect } from "@std/expect";
+import { loadConfig } from "./config.ts";
+import { silentLogger } from "./logger.ts";
+import { migrate, migrateConfigText } from "./migrate.ts";
+import { withTempRepo } from "./test-utils.ts";
+
+/**
+ * A v0.2.x configuration with comments and a current-format command
+ */
+const LEGACY_YAML = `# Checks for every commit
+hooks:
+  pre-commit:
+    - id: deno-fmt
+      name: Format
+      run: deno-fmt
+      glob: "*.{ts,js}"
+      pass_filenames: true
+    # Lint everything
+    - id: lint
+      run: deno-lint
+    - deno task check
+  pre-push:
+    - name: unit tests
+      run: deno task test
+      stages: [push]
+    - name: broken
+`;
+
+Deno.test("migrateConfigText - rewrites v0.2.x commands in place", () => {
+  const { text, commands, inPlace } = migrateConfigText(
+    LEGACY_YAML,
+    "deno-hooks.yml",
+  );
+
+  expect(inPlace).toBe(true);
+  expect(text).toBe(`# Checks for every commit
+hooks:
+  pre-commit:
+    # Format
+    - run: deno fmt --check
+      id: deno-fmt
+      files: "*.{ts,js}"
+      pass_filenames: true
+    # Lint everything
+    - run: deno lint
+      id: lint
+    - deno task check
+  pre-push:
+    # unit tests
+    - deno task test
+    - name: broken
+`);
+  expect(commands.map(({ path, after, dropped }) => ({ path, after, dropped })))
+    .toEqual([
+      {
+        path: ["hooks", "pre-commit", 0],
+        after: {
+          run: "deno fmt --check",
+          id: "deno-fmt",
+          files: "*.{ts,js}",
+          pass_filenames: true,
+        },
+        dropped: [],
+      },
+      {
+        path: ["hooks", "pre-commit", 1],
+        after: { run: "deno lint", id: "lint" },
+        dropped: [],
+      },
+      {
+        path: ["hooks", "pre-push", 0],
+        after: "deno task test",
+        dropped: ['key "stages"'],
+      },
+      {
+        path: ["hooks", "pre-push", 1],
+        after: undefined,
+        dropped: ['it has no "run" command'],
+      },
+    ]);
+});
+
+Deno.test("migrateConfigText - leaves current configurations alone", () => {
+  const text = "hooks:\n  pre-commit:\n    - run: deno fmt --check\n";
+  expect(migrateConfigText(text, "deno-hooks.yml")).toEqual({
+    text,
+    commands: [],
+    inPlace: true,
+  });
+});
+
+Deno.test("migrateConfigText - rewrites the deno-hooks key of deno.json", () => {
+  const text = `{
+  "tasks": { "test": "deno test" },
+  "deno-hooks": {
+    "hooks": {
+      "pre-commit": [
+        { "id": "deno-test", "name": "Tests", "glob": ["*.ts"] }
+      ]
+    }
+  }
+}
+`;
+  const { text: output, commands } = migrateConfigText(text, "deno.json");
+
+  expect(output).toBe(`{
+  "tasks": { "test": "deno test" },
+  "deno-hooks": {
+    "hooks": {
+      "pre-commit": [
+        {
+          "run": "deno test -A",
+          "id": "deno-test",
+          "files": [
+            "*.ts"
+          ]
+        }
+      ]
+    }
+  }
+}
+`);
+  // JSON has no comments to keep the name in
+  expect(commands[0].dropped).toEqual(['name "Tests"']);
+});
+
+Deno.test("migrateConfigText - writes flow style YAML out again", () => {
+  const { text, inPlace } = migrateConfigText(
+    'hooks: { pre-commit: [{ run: deno-fmt, glob: "*.ts" }] }\n',
+    "deno-hooks.yml",
+  );
+  expect(inPlace).toBe(false);
+  expect(migrateConfigText(text, "deno-hooks.yml").commands).toEqual([]);
+});
+
+Deno.test("migrate - converts deno-hooks.yml so it loads again", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      LEGACY_YAML.replace("    - name: broken\n", ""),
+    );
+    await expect(loadConfig(root)).rejects.toThrow(
+      '"glob" in hooks.pre-commit is from the v0.2.x format',
+    );
+
+    const preview = await migrate({ dryRun: true, logger: silentLogger });
+    expect(preview.written).toBe(false);
+    expect(await Deno.readTextFile(`${root}/deno-hooks.yml`)).toContain(
+      "glob:",
+    );
+
+    const result = await migrate({ logger: silentLogger });
+    expect(result.written).toBe(true);
+    expect(result.commands).toHaveLength(3);
+    const config = await loadConfig(root, { logger: silentLogger });
+    expect(config.hooks["pre-push"]).toEqual(["deno task test"]);
+
+    expect((await migrate({ logger: silentLogger })).commands).toEqual([]);
+  });
+});
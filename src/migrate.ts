@@ -0,0 +1,422 @@
+/**
+ * Convert configurations written for deno-hooks v0.2.x
+ *
+ * Before 0.3.0, commands were objects with an `id`, a display `name`, a
+ * `glob` of files and `pass_filenames`, and `run` could name a built-in hook
+ * (`deno-fmt`, `deno-lint`, `deno-test`):
+ *
+ * ```yaml
+ * hooks:
+ *   pre-commit:
+ *     - id: deno-fmt
+ *       name: Format
+ *       run: deno-fmt
+ *       glob: "*.{ts,js}"
+ *       pass_filenames: true
+ * ```
+ *
+ * {@linkcode migrate} rewrites such entries in place: built-ins become the
+ * Deno commands they ran, `glob` becomes `files`, and in YAML the `name`
+ * becomes a comment. The rest of the file, including comments, is kept.
+ *
+ * ```yaml
+ * hooks:
+ *   pre-commit:
+ *     # Format
+ *     - run: deno fmt --check
+ *       id: deno-fmt
+ *       files: "*.{ts,js}"
+ *       pass_filenames: true
+ * ```
+ *
+ * @module
+ */
+
+import { stringify as stringifyYaml } from "@std/yaml";
+import {
+  COMMAND_KEYS,
+  type CommandConfig,
+  describeCommand,
+  type HookCommand,
+  ID_PATTERN,
+} from "./config.ts";
+import { unifiedDiff } from "./diff.ts";
+import { isRecord, parseDocument } from "./documents.ts";
+import { getGitRoot } from "./git.ts";
+import {
+  type ConfigPath,
+  findJsonValueSpan,
+  findYamlItemSpan,
+  locateInJson,
+  locateInYaml,
+} from "./locate.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import { formatYamlCommand } from "./yaml.ts";
+
+/**
+ * Built-in hooks of v0.2.x and the commands that replace them
+ */
+export const LEGACY_BUILTINS: Readonly<Record<string, string>> = {
+  "deno-fmt": "deno fmt --check",
+  "deno-lint": "deno lint",
+  "deno-test": "deno test -A",
+};
+
+/**
+ * A v0.2.x command and what it becomes
+ */
+export interface CommandMigration {
+  /** Path of the command in the configuration */
+  path: ConfigPath;
+  /** The command as written */
+  before: unknown;
+  /**
+   * The command in the current format, or undefined if it could not be
+   * translated and was left unchanged
+   */
+  after?: HookCommand;
+  /** Parts of the command that could not be translated */
+  dropped: string[];
+}
+
+/**
+ * A configuration file rewritten to the current format
+ */
+export interface ConfigMigration {
+  /** The new file content (unchanged if nothing needed migrating) */
+  text: string;
+  /** Every v0.2.x command found, in document order */
+  commands: CommandMigration[];
+  /**
+   * Whether the file was edited in place; YAML in flow style is written
+   * out again instead, which loses its comments and formatting
+   */
+  inPlace: boolean;
+}
+
+/**
+ * Options for {@linkcode migrate}
+ */
+export interface MigrateOptions {
+  /** Print the changes as a diff without writing anything */
+  dryRun?: boolean;
+  /** Where progress messages go (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * Outcome of {@linkcode migrate}
+ */
+export interface MigrateResult {
+  /** The configuration file that was checked */
+  file: string;
+  /** Every v0.2.x command found, in document order */
+  commands: CommandMigration[];
+  /** Whether the file was rewritten */
+  written: boolean;
+}
+
+/**
+ * Convert the repository's configuration from the v0.2.x format
+ *
+ * Checks deno-hooks.yml, or the "deno-hooks" key of deno.json, in the
+ * repository root, and rewrites the commands written in the old format.
+ * Whatever cannot be translated is reported as a warning.
+ *
+ * @param options - Whether to only preview the changes
+ * @returns The commands found and whether the file was rewritten
+ * @throws {Error} If not in a git repository, or there is no deno-hooks.yml
+ *   and no deno.json with a "deno-hooks" key
+ *
+ * @example
+ * ```ts
+ * import { migrate } from "@theswanfactory/deno-hooks";
+ *
+ * const { commands } = await migrate({ dryRun: true });
+ * console.log(`${commands.length} command(s) use the v0.2.x format`);
+ * ```
+ */
+export async function migrate(
+  options: MigrateOptions = {},
+): Promise<MigrateResult> {
+  const { dryRun = false, logger = consoleLogger } = options;
+  const log = (message: string) => logger.info(message);
+  const root = await getGitRoot();
+
+  let source: { file: string; text: string } | undefined;
+  for (const file of [`${root}/deno-hooks.yml`, `${root}/deno.json`]) {
+    let text: string;
+    try {
+      text = await Deno.readTextFile(file);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      throw error;
+    }
+    if (file.endsWith(".json")) {
+      const document = parseDocument(text, file);
+      if (!isRecord(document) || !document["deno-hooks"]) continue;
+    }
+    source = { file, text };
+    break;
+  }
+  if (!source) {
+    throw new Error(
+      "No configuration to migrate. Expected deno-hooks.yml, or a deno-hooks key in deno.json",
+    );
+  }
+
+  const { file, text } = source;
+  const migration = migrateConfigText(text, file);
+  const result = { file, commands: migration.commands, written: false };
+  if (migration.commands.length === 0) {
+    log(`✓ ${file} already uses the current format`);
+    return result;
+  }
+
+  const locate = (path: ConfigPath) => {
+    const { line, column } = file.endsWith(".json")
+      ? locateInJson(text, ["deno-hooks", ...path])
+      : locateInYaml(text, path);
+    return `${file}:${line}:${column}`;
+  };
+  log(
+    `${
+      dryRun ? "Would migrate" : "Migrating"
+    } ${migration.commands.length} command(s) from the v0.2.x format:\n`,
+  );
+  for (const command of migration.commands) {
+    if (command.after === undefined) {
+      logger.warn(
+        `  ⚠ ${locate(command.path)}: left unchanged, ${
+          command.dropped.join(", ")
+        }`,
+      );
+      continue;
+    }
+    log(`  ${locate(command.path)}: ${describeCommand(command.after)}`);
+    for (const dropped of command.dropped) {
+      logger.warn(`    ⚠ not translated: ${dropped}`);
+    }
+  }
+  if (!migration.inPlace) {
+    logger.warn(
+      `\n⚠ ${file} uses flow style and is written out again; its comments are not kept`,
+    );
+  }
+
+  if (dryRun) {
+    log(
+      `\n${
+        unifiedDiff(text, migration.text, { oldLabel: file, newLabel: file })
+      }`,
+    );
+    return result;
+  }
+  if (migration.text === text) {
+    logger.warn(
+      `\n⚠ ${file} was left unchanged; convert these commands by hand`,
+    );
+    return result;
+  }
+  await Deno.writeTextFile(file, migration.text);
+  result.written = true;
+  log(`\n✓ Updated ${file}; run install to regenerate the hooks`);
+  return result;
+}
+
+/**
+ * Rewrite the v0.2.x commands of a configuration file's content
+ *
+ * @param text - Content of deno-hooks.yml, or of a JSON file with a
+ *   "deno-hooks" key such as deno.json
+ * @param file - Name of the file; `.json` files are read as JSON
+ * @returns The new content and every command found
+ * @throws {Error} If the content cannot be parsed
+ */
+export function migrateConfigText(
+  text: string,
+  file: string,
+): ConfigMigration {
+  const json = file.endsWith(".json");
+  const document = parseDocument(text, file);
+  const config = !json
+    ? document
+    : isRecord(document)
+    ? document["deno-hooks"]
+    : undefined;
+
+  const commands: CommandMigration[] = [];
+  const names = new Map<CommandMigration, string>();
+  for (const [path, entry] of findLegacyCommands(config)) {
+    const { name, ...migration } = translateCommand(entry);
+    commands.push({ path, ...migration });
+    if (name !== undefined) names.set(commands[commands.length - 1], name);
+  }
+  const changed = commands.filter((command) => command.after !== undefined);
+  if (changed.length === 0) return { text, commands, inPlace: true };
+
+  // Names only survive as YAML comments
+  const dropName = (command: CommandMigration) => {
+    const name = names.get(command);
+    if (name !== undefined) {
+      command.dropped.unshift(`name ${JSON.stringify(name)}`);
+    }
+  };
+
+  // Edit from the end so earlier positions stay valid
+  if (json) {
+    let output = text;
+    for (const command of changed.toReversed()) {
+      dropName(command);
+      const { start, end } = findJsonValueSpan(output, [
+        "deno-hooks",
+        ...command.path,
+      ])!;
+      const indent = output.slice(output.lastIndexOf("\n", start) + 1)
+        .match(/^\s*/)![0];
+      const value = JSON.stringify(command.after, null, 2)
+        .replaceAll("\n", `\n${indent}`);
+      output = output.slice(0, start) + value + output.slice(end);
+    }
+    return { text: output, commands, inPlace: true };
+  }
+
+  const spans = changed.map((command) => findYamlItemSpan(text, command.path));
+  if (spans.every((span) => span !== undefined)) {
+    const lines = text.split("\n");
+    for (let i = changed.length - 1; i >= 0; i--) {
+      const { start, end, column } = spans[i]!;
+      lines.splice(
+        start,
+        end - start,
+        ...nameComment(names.get(changed[i]), column),
+        ...formatYamlCommand(changed[i].after!, column),
+      );
+    }
+    return { text: lines.join("\n"), commands, inPlace: true };
+  }
+
+  for (const command of changed) {
+    dropName(command);
+    setPath(config, command.path, command.after);
+  }
+  return { text: stringifyYaml(config), commands, inPlace: false };
+}
+
+/**
+ * Commands written in the v0.2.x format, with their paths
+ */
+function findLegacyCommands(config: unknown): [ConfigPath, unknown][] {
+  const found: [ConfigPath, unknown][] = [];
+  const hooks = (config as { hooks?: unknown } | null)?.hooks;
+  if (typeof hooks !== "object" || hooks === null) return found;
+
+  for (const [hook, entry] of Object.entries(hooks)) {
+    const [commands, path] = Array.isArray(entry)
+      ? [entry, ["hooks", hook]]
+      : [entry?.commands, ["hooks", hook, "commands"]];
+    if (!Array.isArray(commands)) continue;
+    commands.forEach((command, index) => {
+      if (isLegacyCommand(command)) found.push([[...path, index], command]);
+    });
+  }
+  return found;
+}
+
+/**
+ * Whether a command uses a v0.2.x key or built-in
+ */
+function isLegacyCommand(command: unknown): boolean {
+  if (typeof command === "string") {
+    return Object.hasOwn(LEGACY_BUILTINS, command);
+  }
+  if (typeof command !== "object" || command === null) return false;
+  const entry = command as Record<string, unknown>;
+  const builtin = entry.run ?? entry.id;
+  return "glob" in entry || "name" in entry ||
+    (typeof builtin === "string" && Object.hasOwn(LEGACY_BUILTINS, builtin));
+}
+
+/**
+ * Translate one v0.2.x command
+ */
+function translateCommand(
+  entry: unknown,
+): Omit<CommandMigration, "path"> & { name?: string } {
+  if (typeof entry === "string") {
+    return { before: entry, after: LEGACY_BUILTINS[entry], dropped: [] };
+  }
+
+  const { id, name, run, glob, pass_filenames, ...rest } = entry as Record<
+    string,
+    unknown
+  >;
+  // A built-in could be named by its id alone
+  const command = typeof run === "string"
+    ? run
+    : typeof id === "string" && Object.hasOwn(LEGACY_BUILTINS, id)
+    ? id
+    : undefined;
+  if (command === undefined) {
+    return { before: entry, dropped: ['it has no "run" command'] };
+  }
+
+  const dropped: string[] = [];
+  const after: CommandConfig = {
+    run: Object.hasOwn(LEGACY_BUILTINS, command)
+      ? LEGACY_BUILTINS[command]
+      : command,
+  };
+  if (typeof id === "string" && ID_PATTERN.test(id)) {
+    after.id = id;
+  } else if (id !== undefined) {
+    dropped.push(`id ${JSON.stringify(id)} (not a valid id)`);
+  }
+  if (
+    typeof glob === "string" ||
+    (Array.isArray(glob) &&
+      glob.every((pattern) => typeof pattern === "string"))
+  ) {
+    after.files = glob;
+  } else if (glob !== undefined) {
+    dropped.push(`glob ${JSON.stringify(glob)}`);
+  }
+  if (pass_filenames === true) {
+    after.pass_filenames = true;
+  } else if (pass_filenames !== undefined && pass_filenames !== false) {
+    dropped.push(`pass_filenames ${JSON.stringify(pass_filenames)}`);
+  }
+  for (const [key, value] of Object.entries(rest)) {
+    if (COMMAND_KEYS.includes(key)) {
+      Object.assign(after, { [key]: value });
+    } else {
+      dropped.push(`key "${key}"`);
+    }
+  }
+
+  return {
+    before: entry,
+    after: Object.keys(after).length === 1 ? after.run : after,
+    dropped,
+    name: typeof name === "string" ? name : undefined,
+  };
+}
+
+/**
+ * Replace the value at a path
+ */
+function setPath(target: unknown, path: ConfigPath, value: unknown): void {
+  let node = target as Record<string | number, unknown>;
+  for (const segment of path.slice(0, -1)) {
+    node = node[segment] as Record<string | number, unknown>;
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/**
+ * A v0.2.x `name` as a comment line above its command
+ */
+function nameComment(name: string | undefined, column: number): string[] {
+  if (name === undefined) return [];
+  return [`${" ".repeat(column)}# ${name.replaceAll("\n", " ")}`];
+}
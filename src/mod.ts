@@ -12,6 +12,14 @@
  * await install();
  * ```
  *
+ * @example Removing hooks
+ * ```ts
+ * import { uninstall } from "@theswanfactory/deno-hooks";
+ *
+ * // Remove generated hooks and restore any hooks they replaced
+ * await uninstall();
+ * ```
+ *
  * @example Configuration types
  * ```ts
  * import type { Config } from "@theswanfactory/deno-hooks";
@@ -19,8 +27,8 @@
  * const config: Config = {
  *   hooks: {
  *     "pre-commit": [
- *       "deno task fmt",
- *       "deno task lint"
+ *       "deno task lint",
+ *       { run: "deno fmt --check", files: "*.ts", pass_filenames: true },
  *     ],
  *   },
  * };
@@ -30,19 +38,118 @@
  */
 
 export { install } from "./install.ts";
-export type { Config } from "./config.ts";
+export type { InstallOptions, InstallResult } from "./install.ts";
+export { consoleLogger, silentLogger } from "./logger.ts";
+export type { Logger } from "./logger.ts";
+export {
+  errorReport,
+  installReport,
+  JSON_REPORT_VERSION,
+  OUTPUT_LIMIT,
+  runReport,
+  statusReport,
+} from "./report.ts";
+export type {
+  CommandReport,
+  ConfigSourceReport,
+  ErrorReport,
+  InstallReport,
+  ReportBase,
+  RunReport,
+  StatusReport,
+} from "./report.ts";
+export { status } from "./status.ts";
+export type {
+  HookState,
+  HookStatus,
+  StatusOptions,
+  StatusResult,
+} from "./status.ts";
+export { uninstall } from "./uninstall.ts";
+export type { UninstallOptions, UninstallResult } from "./uninstall.ts";
+export { parseSkipList, runHook } from "./run.ts";
+export type {
+  CommandResult,
+  RunHookOptions,
+  RunHookResult,
+  SkippedCommand,
+  SkipReason,
+} from "./run.ts";
+export {
+  ci,
+  CI_DEFAULT_HOOKS,
+  CI_DEFAULT_RANGE,
+  formatCiSummary,
+  formatJUnit,
+} from "./ci.ts";
+export type { CiOptions, CiResult, CiRun } from "./ci.ts";
+export type { CommitInfo } from "./git.ts";
+export { checkTasks, findTaskReferences } from "./tasks.ts";
+export type { TaskProblem, TaskReference } from "./tasks.ts";
+export {
+  detectImportSources,
+  formatImportedConfig,
+  IMPORT_SOURCES,
+  importHooks,
+  readImportSource,
+} from "./import.ts";
+export type {
+  ImportedConfig,
+  ImportOptions,
+  ImportResult,
+  ImportSource,
+} from "./import.ts";
+export { LEGACY_BUILTINS, migrate, migrateConfigText } from "./migrate.ts";
+export type {
+  CommandMigration,
+  ConfigMigration,
+  MigrateOptions,
+  MigrateResult,
+} from "./migrate.ts";
+export {
+  checkCommitMessage,
+  DEFAULT_COMMIT_TYPES,
+  formatCommitMessageProblems,
+} from "./commit-msg.ts";
+export type { CommitMsgProblem } from "./commit-msg.ts";
+export { expandPlaceholders, getGitHookSpec, GIT_HOOKS } from "./hooks.ts";
+export type { GitHookSpec } from "./hooks.ts";
+export type { ConfigPath, SourceLocation } from "./locate.ts";
+export { findPackageDirs, readWorkspaceMembers } from "./workspace.ts";
+export {
+  applyHookDefaults,
+  CONFIG_SCHEMA,
+  ConfigError,
+  defineConfig,
+  getHookConfig,
+  getHooksForTrigger,
+  getInstallableHooks,
+  loadConfig,
+  mergeConfigs,
+  mergePackageConfig,
+  normalizeCommand,
+  normalizeHook,
+  parseTimeout,
+  planCommandWaves,
+  SCHEMA_URL,
+  scopeToPackage,
+  validateConfig,
+} from "./config.ts";
+export type {
+  CommandConfig,
+  CommitMsgConfig,
+  Config,
+  ConfigIssue,
+  HookCommand,
+  HookConfig,
+  HookEntry,
+  LoadConfigOptions,
+  ValidateConfigOptions,
+} from "./config.ts";
 
 // When run directly (e.g., deno run -A jsr:@theswanfactory/deno-hooks)
-// automatically run the installer
+// hand over to the CLI, which runs the installer by default
 if (import.meta.main) {
-  const { install } = await import("./install.ts");
-  try {
-    await install();
-  } catch (error) {
-    console.error(
-      "\nInstallation failed:",
-      error instanceof Error ? error.message : String(error),
-    );
-    Deno.exit(1);
-  }
+  const { main } = await import("./cli.ts");
+  await main(Deno.args);
 }
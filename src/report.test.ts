@@ -0,0 +1,77 @@
+/**
+ * Tests for the JSON reports
+ */
+
+import { expect } from "@std/expect";
+import {
+  errorReport,
+  installReport,
+  JSON_REPORT_VERSION,
+  OUTPUT_LIMIT,
+  runReport,
+} from "./report.ts";
+
+Deno.test("installReport - lists every hook in configuration order", () => {
+  const report = installReport({
+    hooksDir: "/repo/.git/hooks",
+    configPaths: ["/repo/deno-hooks.yml"],
+    createdConfig: false,
+    dryRun: false,
+    hooks: ["pre-push", "pre-commit", "commit-msg"],
+    written: ["pre-commit"],
+    skipped: ["pre-push", "commit-msg"],
+    backedUp: ["pre-commit"],
+  }, ["unknown hook"]);
+
+  expect(report).toEqual({
+    version: JSON_REPORT_VERSION,
+    command: "install",
+    success: true,
+    warnings: ["unknown hook"],
+    config: { paths: ["/repo/deno-hooks.yml"], created: false },
+    hooksDir: "/repo/.git/hooks",
+    dryRun: false,
+    hooks: [
+      { hook: "pre-push", action: "skipped", backedUp: false },
+      { hook: "pre-commit", action: "written", backedUp: true },
+      { hook: "commit-msg", action: "skipped", backedUp: false },
+    ],
+  });
+});
+
+Deno.test("runReport - keeps the end of long output", () => {
+  const report = runReport({
+    hook: "pre-commit",
+    success: false,
+    commands: [{
+      command: "deno task test",
+      code: 1,
+      success: false,
+      timedOut: false,
+      durationMs: 1200,
+      stdout: `${"x".repeat(OUTPUT_LIMIT)}FAILED`,
+      stderr: "",
+    }],
+    skipped: [{ command: "deno task lint", reason: "earlier-failure" }],
+  }, ["/repo/deno-hooks.yml"]);
+
+  expect(report.success).toBe(false);
+  expect(report.commands[0].exitCode).toBe(1);
+  expect(report.commands[0].stdout).toHaveLength(OUTPUT_LIMIT);
+  expect(report.commands[0].stdout.endsWith("FAILED")).toBe(true);
+  expect(report.commands[0].truncated).toBe(true);
+  expect(report.skipped).toEqual([
+    { command: "deno task lint", reason: "earlier-failure" },
+  ]);
+});
+
+Deno.test("errorReport - carries the error message", () => {
+  expect(errorReport("status", new Error("No configuration found")))
+    .toEqual({
+      version: JSON_REPORT_VERSION,
+      command: "status",
+      success: false,
+      warnings: [],
+      error: "No configuration found",
+    });
+});
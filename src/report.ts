@@ -0,0 +1,250 @@
+/**
+ * Machine-readable reports printed by the CLI's `--json` flag
+ *
+ * Every report is one JSON object with the format `version`, the CLI
+ * `command` it describes, whether it succeeded and the configuration
+ * warnings it produced. Within a version fields are only ever added;
+ * renaming or removing one bumps {@linkcode JSON_REPORT_VERSION}.
+ *
+ * @example
+ * ```ts
+ * import { install, installReport, silentLogger } from "@theswanfactory/deno-hooks";
+ *
+ * const result = await install({ yes: true, logger: silentLogger });
+ * console.log(JSON.stringify(installReport(result)));
+ * ```
+ *
+ * @module
+ */
+
+import type { InstallResult } from "./install.ts";
+import type { RunHookResult, SkipReason } from "./run.ts";
+import type { HookStatus, StatusResult } from "./status.ts";
+
+/**
+ * Version of the report format
+ */
+export const JSON_REPORT_VERSION = 1;
+
+/**
+ * Characters of each output stream kept per command; longer output keeps
+ * its end, where errors usually are
+ */
+export const OUTPUT_LIMIT = 8192;
+
+/**
+ * Fields shared by all reports
+ */
+export interface ReportBase {
+  /** Report format version, see {@linkcode JSON_REPORT_VERSION} */
+  version: number;
+  /** CLI command the report describes */
+  command: string;
+  /** Whether the command succeeded (its exit code was 0) */
+  success: boolean;
+  /** Configuration warnings, e.g. unknown hook names */
+  warnings: string[];
+}
+
+/**
+ * Where the configuration came from
+ */
+export interface ConfigSourceReport {
+  /**
+   * Configuration files that were read: the root configuration first, then
+   * those of monorepo packages
+   */
+  paths: string[];
+}
+
+/**
+ * Report of `install --json`
+ */
+export interface InstallReport extends ReportBase {
+  command: "install";
+  /** Configuration used; `created` if a default one was written */
+  config: ConfigSourceReport & { created: boolean };
+  /** Hooks directory the scripts were written to */
+  hooksDir: string;
+  /** Whether nothing was written */
+  dryRun: boolean;
+  /** Every configured hook, in configuration order */
+  hooks: {
+    /** Git hook name */
+    hook: string;
+    /** `written`, or `skipped` because it was up to date */
+    action: "written" | "skipped";
+    /** Whether a hook not generated by deno-hooks was backed up */
+    backedUp: boolean;
+  }[];
+}
+
+/**
+ * Report of `status --json`
+ */
+export interface StatusReport extends ReportBase {
+  command: "status";
+  /** Configuration the hooks were compared with */
+  config: ConfigSourceReport;
+  /** Hooks directory that was inspected */
+  hooksDir: string;
+  /** Every configured or installed hook, sorted by name */
+  hooks: HookStatus[];
+}
+
+/**
+ * A command in the report of `run --json`
+ */
+export interface CommandReport {
+  /** The command as written in the configuration */
+  command: string;
+  /** Process exit code (124 after a timeout) */
+  exitCode: number;
+  /** Whether it was stopped for exceeding its `timeout` */
+  timedOut: boolean;
+  /** Wall-clock duration in milliseconds */
+  durationMs: number;
+  /** End of its stdout, at most {@linkcode OUTPUT_LIMIT} characters */
+  stdout: string;
+  /** End of its stderr, at most {@linkcode OUTPUT_LIMIT} characters */
+  stderr: string;
+  /** Whether the beginning of stdout or stderr was cut off */
+  truncated: boolean;
+}
+
+/**
+ * Report of `run --json`
+ */
+export interface RunReport extends ReportBase {
+  command: "run";
+  /** Configuration the commands came from */
+  config: ConfigSourceReport;
+  /** Git hook name */
+  hook: string;
+  /** Commands that ran, in order */
+  commands: CommandReport[];
+  /** Commands that did not run, in order */
+  skipped: { command: string; reason: SkipReason }[];
+}
+
+/**
+ * Report of a command that failed with an error, e.g. an invalid
+ * configuration
+ */
+export interface ErrorReport extends ReportBase {
+  success: false;
+  /** The error message */
+  error: string;
+}
+
+/**
+ * Build the report of an installation
+ *
+ * @param result - What {@linkcode install} returned
+ * @param warnings - Warnings logged while installing
+ */
+export function installReport(
+  result: InstallResult,
+  warnings: string[] = [],
+): InstallReport {
+  return {
+    version: JSON_REPORT_VERSION,
+    command: "install",
+    success: true,
+    warnings,
+    config: { paths: result.configPaths, created: result.createdConfig },
+    hooksDir: result.hooksDir,
+    dryRun: result.dryRun,
+    hooks: result.hooks.map((hook) => ({
+      hook,
+      action: result.written.includes(hook) ? "written" : "skipped",
+      backedUp: result.backedUp.includes(hook),
+    })),
+  };
+}
+
+/**
+ * Build the report of a status check; it succeeds when the hooks are in sync
+ *
+ * @param result - What {@linkcode status} returned
+ * @param warnings - Warnings logged while loading the configuration
+ */
+export function statusReport(
+  result: StatusResult,
+  warnings: string[] = [],
+): StatusReport {
+  return {
+    version: JSON_REPORT_VERSION,
+    command: "status",
+    success: result.inSync,
+    warnings,
+    config: { paths: result.configPaths },
+    hooksDir: result.hooksDir,
+    hooks: result.hooks,
+  };
+}
+
+/**
+ * Build the report of a hook run, truncating each command's output
+ *
+ * @param result - What {@linkcode runHook} returned
+ * @param configPaths - Configuration files the commands came from
+ * @param warnings - Warnings logged while loading the configuration
+ */
+export function runReport(
+  result: RunHookResult,
+  configPaths: string[],
+  warnings: string[] = [],
+): RunReport {
+  return {
+    version: JSON_REPORT_VERSION,
+    command: "run",
+    success: result.success,
+    warnings,
+    config: { paths: configPaths },
+    hook: result.hook,
+    commands: result.commands.map((command) => {
+      const stdout = truncateOutput(command.stdout);
+      const stderr = truncateOutput(command.stderr);
+      return {
+        command: command.command,
+        exitCode: command.code,
+        timedOut: command.timedOut,
+        durationMs: command.durationMs,
+        stdout: stdout.text,
+        stderr: stderr.text,
+        truncated: stdout.truncated || stderr.truncated,
+      };
+    }),
+    skipped: result.skipped,
+  };
+}
+
+/**
+ * Build the report of a command that failed with an error
+ *
+ * @param command - The CLI command
+ * @param error - What it threw
+ * @param warnings - Warnings logged before the error
+ */
+export function errorReport(
+  command: string,
+  error: unknown,
+  warnings: string[] = [],
+): ErrorReport {
+  return {
+    version: JSON_REPORT_VERSION,
+    command,
+    success: false,
+    warnings,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Keep the last {@linkcode OUTPUT_LIMIT} characters of a command's output
+ */
+function truncateOutput(text: string): { text: string; truncated: boolean } {
+  if (text.length <= OUTPUT_LIMIT) return { text, truncated: false };
+  return { text: text.slice(-OUTPUT_LIMIT), truncated: true };
+}
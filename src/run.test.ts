@@ -0,0 +1,216 @@
+/**
+ * Tests for runHook
+ */
+
+import { expect } from "@std/expect";
+import type { Config } from "./config.ts";
+import { parseSkipList, runHook } from "./run.ts";
+
+Deno.test("runHook - forwards arguments and stdin to commands", async () => {
+  const config: Config = {
+    hooks: {
+      "pre-push": ['echo "$0 $1 $2"', "cat"],
+    },
+  };
+
+  const result = await runHook(config, "pre-push", {
+    args: ["origin", "git@example.com:repo.git"],
+    stdin: "refs/heads/main abc refs/heads/main def\n",
+  });
+
+  expect(result.success).toBe(true);
+  expect(result.commands[0].stdout).toBe(
+    "pre-push origin git@example.com:repo.git\n",
+  );
+  expect(result.commands[1].stdout).toBe(
+    "refs/heads/main abc refs/heads/main def\n",
+  );
+});
+
+Deno.test("runHook - stops at the first failing command", async () => {
+  const config: Config = {
+    hooks: {
+      "pre-commit": ["echo first", "echo oops >&2; exit 3", "echo never"],
+    },
+  };
+
+  const result = await runHook(config, "pre-commit");
+
+  expect(result.success).toBe(false);
+  expect(result.commands.map((c) => c.code)).toEqual([0, 3]);
+  expect(result.commands[1].stderr).toBe("oops\n");
+  expect(result.skipped).toEqual([
+    { command: "echo never", reason: "earlier-failure" },
+  ]);
+});
+
+Deno.test("runHook - skips commands listed by id", async () => {
+  const config: Config = {
+    hooks: {
+      "pre-commit": [
+        { run: "echo lint", id: "lint" },
+        { run: "echo test", id: "api/test" },
+        "echo always",
+      ],
+    },
+  };
+
+  const result = await runHook(config, "pre-commit", {
+    skip: parseSkipList(" lint,test , "),
+  });
+
+  expect(result.success).toBe(true);
+  expect(result.commands.map((c) => c.command)).toEqual(["echo always"]);
+  expect(result.skipped).toEqual([
+    { command: "echo lint", reason: "skip-list" },
+    { command: "echo test", reason: "skip-list" },
+  ]);
+});
+
+Deno.test("runHook - runs every command with fail_fast: false", async () => {
+  const config: Config = {
+    hooks: {
+      "pre-commit": {
+        fail_fast: false,
+        commands: [
+          { run: "exit 2", id: "build" },
+          { run: "echo test", needs: "build" },
+          "echo lint",
+        ],
+      },
+    },
+  };
+
+  const result = await runHook(config, "pre-commit");
+
+  expect(result.success).toBe(false);
+  expect(result.commands.map((c) => [c.command, c.code])).toEqual([
+    ["exit 2", 2],
+    ["echo lint", 0],
+  ]);
+  expect(result.skipped).toEqual([
+    { command: "echo test", reason: "failed-dependency" },
+  ]);
+});
+
+Deno.test("runHook - rejects unconfigured hooks", async () => {
+  await expect(runHook({ hooks: {} }, "pre-commit")).rejects.toThrow(
+    "No commands configured",
+  );
+  await expect(runHook({ hooks: {} }, "toString")).rejects.toThrow(
+    "No commands configured for hook: toString",
+  );
+});
+
+Deno.test("runHook - passes matching files in batches", async () => {
+  const config: Config = {
+    hooks: {
+      "pre-commit": [
+        { run: "echo ts", files: "*.ts", exclude: "vendor/**" },
+        { run: "echo", files: ["*.ts", "*.md"], pass_filenames: true },
+        { run: "echo json", files: "*.json" },
+      ],
+    },
+  };
+
+  const result = await runHook(config, "pre-commit", {
+    files: ["src/mod.ts", "README.md", "vendor/lib.ts", "deno.lock"],
+  });
+
+  expect(result.success).toBe(true);
+  expect(result.commands.map((c) => c.stdout)).toEqual([
+    "ts\n",
+    "src/mod.ts README.md vendor/lib.ts\n",
+  ]);
+  expect(result.skipped).toEqual([
+    { command: "echo json", reason: "no-matching-files" },
+  ]);
+});
+
+Deno.test("runHook - runs parallel waves after their dependencies", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const config: Config = {
+      hooks: {
+        "pre-push": {
+          parallel: true,
+          commands: [
+            { run: "cat built", needs: "build" },
+            { run: "sleep 0.2; echo ok > built", id: "build" },
+            "echo lint",
+          ],
+        },
+      },
+    };
+
+    const result = await runHook(config, "pre-push", { cwd: dir });
+
+    expect(result.success).toBe(true);
+    expect(result.commands.map((c) => c.stdout)).toEqual([
+      "",
+      "lint\n",
+      "ok\n",
+    ]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("runHook - expands placeholders and pipes stdin to its reader", async () => {
+  const config: Config = {
+    hooks: {
+      "pre-push": [
+        "echo {remote_name}; cat",
+        { run: "cat", stdin: true },
+      ],
+    },
+  };
+
+  const result = await runHook(config, "pre-push", {
+    args: ["origin", "url"],
+    stdin: "refs\n",
+  });
+
+  expect(result.commands.map((c) => c.command)).toEqual([
+    "echo {remote_name}; cat",
+    "cat",
+  ]);
+  expect(result.commands.map((c) => c.stdout)).toEqual(["origin\n", "refs\n"]);
+});
+
+Deno.test("runHook - applies cwd and env and stops commands on timeout", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${dir}/pkg`);
+    const config: Config = {
+      hooks: {
+        "pre-commit": {
+          env: { GREETING: "hello" },
+          commands: [
+            {
+              run: 'basename "$PWD"; echo "$GREETING $NAME"',
+              cwd: "pkg",
+              env: { NAME: 1 },
+            },
+            { run: "sleep 10; echo never", timeout: 0.2 },
+            "echo skipped",
+          ],
+        },
+      },
+    };
+
+    const result = await runHook(config, "pre-commit", { cwd: dir });
+
+    expect(result.success).toBe(false);
+    expect(result.commands[0].stdout).toBe("pkg\nhello 1\n");
+    expect(result.commands[1]).toMatchObject({
+      code: 124,
+      timedOut: true,
+      stdout: "",
+    });
+    expect(result.commands[1].durationMs).toBeLessThan(5000);
+    expect(result.skipped.map((s) => s.command)).toEqual(["echo skipped"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,552 @@
+/**
+ * Run a hook's commands directly, without git
+ *
+ * Executes the configured commands the same way the generated hook script
+ * does - in order, through `sh`, stopping at the first failure - while
+ * streaming their output and collecting a structured result per command.
+ *
+ * @example CLI usage
+ * ```bash
+ * # Run the pre-commit commands
+ * deno run -A jsr:@theswanfactory/deno-hooks run pre-commit
+ *
+ * # Forward arguments the way git would for commit-msg
+ * deno run -A jsr:@theswanfactory/deno-hooks run commit-msg -- .git/COMMIT_EDITMSG
+ * ```
+ *
+ * @example Programmatic usage
+ * ```ts
+ * import { loadConfig, runHook } from "@theswanfactory/deno-hooks";
+ *
+ * const config = await loadConfig(".");
+ * const result = await runHook(config, "pre-commit");
+ * console.log(result.success);
+ * ```
+ *
+ * @module
+ */
+
+import { join } from "@std/path";
+import {
+  applyHookDefaults,
+  type CommandConfig,
+  commandDependencies,
+  type Config,
+  getHookConfig,
+  parseTimeout,
+  planCommandWaves,
+} from "./config.ts";
+import {
+  batchFiles,
+  filterFiles,
+  getPushedFiles,
+  getStagedFiles,
+  usesFiles,
+} from "./files.ts";
+import { expandPlaceholders } from "./hooks.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+
+/**
+ * Options for {@linkcode runHook}
+ */
+export interface RunHookOptions {
+  /** Arguments git would pass to the hook, available as `$1`, `$2`, ... */
+  args?: string[];
+  /**
+   * Data git would write to the hook's stdin (e.g., refs for pre-push).
+   * Goes to the command with `stdin: true`, or to every command if none
+   * has it.
+   */
+  stdin?: string | Uint8Array;
+  /**
+   * Repository root to run commands in (defaults to the current directory);
+   * a command's `cwd` is relative to it
+   */
+  cwd?: string;
+  /**
+   * Candidate files for commands with `files`, `exclude` or
+   * `pass_filenames` (defaults to the files staged in `cwd`, or for
+   * pre-push the files changed by the refs in `stdin`)
+   */
+  files?: string[];
+  /**
+   * Ids of commands to skip, like `DENO_HOOKS_SKIP` does for the installed
+   * hooks; package commands also match by their id without the package
+   * directory
+   */
+  skip?: string[];
+  /** Where progress messages go (default: the console) */
+  logger?: Logger;
+  /**
+   * Write the commands' output to the console (default: true); it is
+   * captured in the result either way
+   */
+  output?: boolean;
+}
+
+/**
+ * Outcome of a single command
+ */
+export interface CommandResult {
+  /** The command as written in the configuration */
+  command: string;
+  /** Process exit code */
+  code: number;
+  /** Whether the command exited with code 0 */
+  success: boolean;
+  /** Whether the command was stopped for exceeding its `timeout` */
+  timedOut: boolean;
+  /** Wall-clock duration in milliseconds */
+  durationMs: number;
+  /** Everything the command wrote to stdout */
+  stdout: string;
+  /** Everything the command wrote to stderr */
+  stderr: string;
+}
+
+/**
+ * Why a command did not run
+ *
+ * - `earlier-failure`: a previous command failed
+ * - `failed-dependency`: a command it `needs` failed or did not run (with
+ *   `fail_fast: false`)
+ * - `no-matching-files`: none of the candidate files matched its filters
+ * - `skip-list`: its id is listed in {@linkcode RunHookOptions.skip}
+ */
+export type SkipReason =
+  | "earlier-failure"
+  | "failed-dependency"
+  | "no-matching-files"
+  | "skip-list";
+
+/**
+ * A command that did not run
+ */
+export interface SkippedCommand {
+  /** The command as written in the configuration */
+  command: string;
+  /** Why it was skipped */
+  reason: SkipReason;
+}
+
+/**
+ * Outcome of running all commands of a hook
+ */
+export interface RunHookResult {
+  /** Git hook name (e.g., "pre-commit") */
+  hook: string;
+  /** Whether every command succeeded */
+  success: boolean;
+  /** Results of the commands that ran, in order */
+  commands: CommandResult[];
+  /** Commands that did not run, in order */
+  skipped: SkippedCommand[];
+}
+
+/**
+ * Run the commands configured for a git hook
+ *
+ * Commands run in order through `sh -c` with the hook arguments as positional
+ * parameters, so `"$@"` and `$1` behave exactly as in the installed script.
+ * Like the installed script, execution stops at the first failing command,
+ * unless the hook sets `fail_fast: false`: then every command runs, except
+ * those that need a failed one, and a summary is printed at the end.
+ * Output is streamed to the console as it arrives and captured in the result;
+ * for hooks with `parallel` it is buffered and printed per command instead.
+ * The hook-level `stash` option is not applied: commands see the working
+ * tree as it is.
+ *
+ * @param config - The loaded configuration
+ * @param hookName - The git hook trigger name (e.g., "pre-commit")
+ * @param options - Arguments, stdin and working directory for the commands
+ * @returns A result for each command and whether the hook passed
+ * @throws {Error} If the hook is not configured
+ *
+ * @example
+ * ```ts
+ * import { loadConfig, runHook } from "@theswanfactory/deno-hooks";
+ *
+ * const config = await loadConfig(".");
+ * const result = await runHook(config, "commit-msg", {
+ *   args: [".git/COMMIT_EDITMSG"],
+ * });
+ * for (const { command, code, durationMs } of result.commands) {
+ *   console.log(`${command}: exit ${code} in ${durationMs}ms`);
+ * }
+ * ```
+ */
+export async function runHook(
+  config: Config,
+  hookName: string,
+  options: RunHookOptions = {},
+): Promise<RunHookResult> {
+  if (!Object.hasOwn(config.hooks, hookName)) {
+    throw new Error(`No commands configured for hook: ${hookName}`);
+  }
+
+  const { logger = consoleLogger, output = true } = options;
+  const log = (message: string) => logger.info(message);
+  const hook = getHookConfig(config, hookName);
+  const commands = hook.commands.map((command) =>
+    applyHookDefaults(hook, command)
+  );
+  const result: RunHookResult = {
+    hook: hookName,
+    success: true,
+    commands: [],
+    skipped: [],
+  };
+
+  let candidates = options.files;
+  if (candidates === undefined && commands.some(usesFiles)) {
+    candidates = hookName === "pre-push"
+      ? await getPushedFiles(
+        typeof options.stdin === "string"
+          ? options.stdin
+          : new TextDecoder().decode(options.stdin),
+        options.args?.[0],
+        options.cwd,
+      )
+      : await getStagedFiles(options.cwd);
+  }
+
+  // Sequential hooks run one command at a time in dependency order; parallel
+  // hooks run each wave in chunks of `concurrency` commands
+  const waves = planCommandWaves(commands, hookName);
+  const groups = hook.parallel
+    ? waves.flatMap((wave) =>
+      chunk(wave, hook.concurrency ?? navigator.hardwareConcurrency)
+    )
+    : waves.flat().map((index) => [index]);
+
+  // Like the installed script, a command with `stdin` is the only reader
+  const stdinReader = commands.find((command) => command.stdin);
+
+  const failFast = hook.fail_fast !== false;
+  const dependencies = commandDependencies(commands);
+  // Commands that failed or did not run because of a failure
+  const failed = new Set<number>();
+  // Summary rows with `fail_fast: false`: mark, command and status
+  const summary: [string, string, string][] = [];
+
+  log(`Running ${hookName} hooks...`);
+  for (const [groupIndex, group] of groups.entries()) {
+    const outcomes = await Promise.all(group.map(async (index) => {
+      const command = commands[index];
+      if (dependencies[index].some((dependency) => failed.has(dependency))) {
+        return "failed-dependency" as const;
+      }
+      if (isSkipped(command, options.skip ?? [])) {
+        return "skip-list" as const;
+      }
+      let files: string[] | undefined;
+      if (usesFiles(command)) {
+        files = filterFiles(candidates ?? [], command);
+        if (files.length === 0) return "no-matching-files" as const;
+      }
+      if (!hook.parallel) {
+        log(`\n$ ${command.run}`);
+      }
+      return await runCommand(command, hookName, files, {
+        ...options,
+        stdin: stdinReader && stdinReader !== command
+          ? undefined
+          : options.stdin,
+        stream: output && !hook.parallel,
+      });
+    }));
+
+    for (const [position, outcome] of outcomes.entries()) {
+      const index = group[position];
+      const command = commands[index];
+      if (outcome === "failed-dependency") {
+        log(`\nSkipped: ${command.run} (a command it needs failed)`);
+        result.skipped.push({ command: command.run, reason: outcome });
+        failed.add(index);
+        summary[index] = [
+          "-",
+          command.run,
+          "not run (needs a failed command)",
+        ];
+        continue;
+      }
+      if (outcome === "skip-list") {
+        log(
+          `\nSkipped: ${command.run} (${command.id} is in DENO_HOOKS_SKIP)`,
+        );
+        result.skipped.push({ command: command.run, reason: outcome });
+        summary[index] = ["-", command.run, "skipped"];
+        continue;
+      }
+      if (outcome === "no-matching-files") {
+        log(`\nSkipped: ${command.run} (no matching files)`);
+        result.skipped.push({ command: command.run, reason: outcome });
+        summary[index] = ["-", command.run, "skipped"];
+        continue;
+      }
+
+      if (hook.parallel) {
+        // Buffered output, printed as one block per command
+        log(`\n$ ${command.run}`);
+        if (output) {
+          writeAll(Deno.stdout, new TextEncoder().encode(outcome.stdout));
+          writeAll(Deno.stderr, new TextEncoder().encode(outcome.stderr));
+        }
+      }
+      result.commands.push(outcome);
+      const seconds = (outcome.durationMs / 1000).toFixed(1);
+      summary[index] = outcome.success
+        ? ["✓", command.run, `passed in ${seconds}s`]
+        : [
+          "✗",
+          command.run,
+          `failed in ${seconds}s (exit code ${outcome.code})`,
+        ];
+      if (!outcome.success) failed.add(index);
+      if (outcome.timedOut) {
+        result.success = false;
+        log(
+          `\n✗ ${command.run} timed out after ${
+            parseTimeout(command.timeout!)
+          }s and was stopped`,
+        );
+      } else if (!outcome.success) {
+        result.success = false;
+        log(
+          `\n✗ ${command.run} failed with exit code ${outcome.code}`,
+        );
+      }
+    }
+
+    if (!result.success && failFast) {
+      result.skipped.push(
+        ...groups.slice(groupIndex + 1).flat().map((index) => ({
+          command: commands[index].run,
+          reason: "earlier-failure" as const,
+        })),
+      );
+      break;
+    }
+  }
+
+  if (!failFast) {
+    const width = Math.max(...commands.map((command) => command.run.length));
+    log(`\n${hookName} summary:`);
+    for (const [mark, command, status] of summary) {
+      log(`  ${mark} ${command.padEnd(width)}  ${status}`);
+    }
+  }
+  if (result.success) {
+    log("\n✓ All hooks passed");
+  }
+
+  return result;
+}
+
+/**
+ * Whether a command's id is in the skip list
+ */
+function isSkipped(command: CommandConfig, skip: string[]): boolean {
+  const { id } = command;
+  if (id === undefined) return false;
+  return skip.includes(id) || skip.includes(id.slice(id.lastIndexOf("/") + 1));
+}
+
+/**
+ * Parse a comma-separated list of command ids, like `DENO_HOOKS_SKIP`
+ *
+ * @param value - The variable's value (e.g., "lint, test")
+ * @returns The ids, without blanks
+ */
+export function parseSkipList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((id) => id.trim()).filter((id) =>
+    id !== ""
+  );
+}
+
+/**
+ * Run one command, once per batch of files when it takes file names
+ *
+ * Batches run in order and stop at the first failure; their exit codes,
+ * durations and output are combined into a single result.
+ */
+async function runCommand(
+  command: CommandConfig,
+  hookName: string,
+  files: string[] | undefined,
+  options: ShellOptions,
+): Promise<CommandResult> {
+  const root = options.cwd ?? Deno.cwd();
+  if (command.cwd !== undefined) {
+    options = { ...options, cwd: join(root, command.cwd) };
+    // File names are relative to the root, so pass them as absolute paths
+    files = files?.map((file) => join(root, file));
+  }
+  options = {
+    ...options,
+    env: command.env,
+    timeout: command.timeout === undefined
+      ? undefined
+      : parseTimeout(command.timeout),
+  };
+
+  if (!command.pass_filenames || files === undefined) {
+    const result = await runShell(
+      expandPlaceholders(hookName, command.run),
+      hookName,
+      options.args ?? [],
+      options,
+    );
+    return { ...result, command: command.run };
+  }
+
+  const combined: CommandResult = {
+    command: command.run,
+    code: 0,
+    success: true,
+    timedOut: false,
+    durationMs: 0,
+    stdout: "",
+    stderr: "",
+  };
+  for (const batch of batchFiles(files)) {
+    const batchResult = await runShell(
+      `${command.run} "$@"`,
+      hookName,
+      batch,
+      options,
+    );
+    combined.code = batchResult.code;
+    combined.success = batchResult.success;
+    combined.timedOut = batchResult.timedOut;
+    combined.durationMs += batchResult.durationMs;
+    combined.stdout += batchResult.stdout;
+    combined.stderr += batchResult.stderr;
+    if (!batchResult.success) break;
+  }
+  return combined;
+}
+
+/**
+ * Options for running a single shell snippet
+ */
+interface ShellOptions extends RunHookOptions {
+  /** Echo output to the console while the command runs */
+  stream: boolean;
+  /** Extra environment variables for the command */
+  env?: Record<string, string | number | boolean>;
+  /** Seconds after which the command is stopped */
+  timeout?: number;
+}
+
+/**
+ * Run a shell snippet through `sh`, capturing (and optionally streaming) its
+ * output
+ *
+ * The shell gets its own process group, so a timeout stops everything it
+ * started and not just `sh` itself.
+ */
+async function runShell(
+  script: string,
+  hookName: string,
+  args: string[],
+  options: ShellOptions,
+): Promise<CommandResult> {
+  const { stdin, cwd, stream, env, timeout } = options;
+  const start = performance.now();
+
+  const child = new Deno.Command("sh", {
+    // $0 is the hook name, like when git runs the hook script
+    args: ["-c", script, hookName, ...args],
+    cwd,
+    env: env && Object.fromEntries(
+      Object.entries(env).map(([name, value]) => [name, String(value)]),
+    ),
+    stdin: stdin === undefined ? "null" : "piped",
+    stdout: "piped",
+    stderr: "piped",
+    detached: timeout !== undefined,
+  }).spawn();
+
+  let timedOut = false;
+  const timer = timeout === undefined ? undefined : setTimeout(() => {
+    timedOut = true;
+    try {
+      Deno.kill(-child.pid, "SIGTERM");
+    } catch {
+      // The command exited in the meantime
+    }
+  }, timeout * 1000);
+  // Start draining output before feeding stdin so neither side can block
+  const collected = Promise.all([
+    tee(child.stdout, stream ? Deno.stdout : undefined),
+    tee(child.stderr, stream ? Deno.stderr : undefined),
+    child.status,
+  ]);
+
+  if (stdin !== undefined) {
+    const writer = child.stdin.getWriter();
+    try {
+      await writer.write(
+        typeof stdin === "string" ? new TextEncoder().encode(stdin) : stdin,
+      );
+      await writer.close();
+    } catch {
+      // The command exited without reading all of its input
+    }
+  }
+
+  const [stdout, stderr, status] = await collected;
+  clearTimeout(timer);
+
+  return {
+    command: script,
+    // Same exit code as timeout(1) and the installed script
+    code: timedOut ? 124 : status.code,
+    success: status.success && !timedOut,
+    timedOut,
+    durationMs: Math.round(performance.now() - start),
+    stdout,
+    stderr,
+  };
+}
+
+/**
+ * Collect a stream as text, copying it to a console stream if given
+ */
+async function tee(
+  stream: ReadableStream<Uint8Array>,
+  target: { writeSync(p: Uint8Array): number } | undefined,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of stream) {
+    if (target) writeAll(target, chunk);
+    text += decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Write a whole chunk, looping over partial writes
+ */
+function writeAll(
+  target: { writeSync(p: Uint8Array): number },
+  chunk: Uint8Array,
+): void {
+  let written = 0;
+  while (written < chunk.length) {
+    written += target.writeSync(chunk.subarray(written));
+  }
+}
+
+/**
+ * Split a list into chunks of at most `size` items
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,779 @@
+/**
+ * Generation and inspection of hook scripts
+ *
+ * Every script written by deno-hooks starts with a header that identifies it
+ * as generated, records the deno-hooks version and a fingerprint of the hook
+ * configuration it was generated from. The header lets `uninstall` and
+ * `status` tell our scripts apart from hand-written hooks and detect drift.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import denoJson from "../deno.json" with { type: "json" };
+import {
+  applyHookDefaults,
+  type CommandConfig,
+  commandDependencies,
+  type HookConfig,
+  type HookEntry,
+  normalizeHook,
+  parseTimeout,
+  planCommandWaves,
+} from "./config.ts";
+import {
+  globsToRegExpSource,
+  PUSHED_FILES_COMMAND,
+  STAGED_FILES_COMMAND,
+  usesFiles,
+} from "./files.ts";
+import { expandPlaceholders } from "./hooks.ts";
+
+/**
+ * Version of deno-hooks, recorded in generated scripts
+ */
+export const VERSION: string = denoJson.version;
+
+/**
+ * Marker written into the header of every generated hook script
+ *
+ * Used to tell our own scripts apart from hand-written or third-party hooks.
+ */
+export const HOOK_MARKER = "Generated by deno-hooks";
+
+/**
+ * Suffix appended to a pre-existing hook when it is moved aside
+ */
+export const BACKUP_SUFFIX = ".deno-hooks.bak";
+
+/**
+ * Header line recording that a generated script chains a backed up hook
+ */
+const CHAIN_MARKER = "Chains existing hook:";
+
+/**
+ * Header line recording the deno-hooks version that generated a script
+ */
+const VERSION_MARKER = "deno-hooks-version:";
+
+/**
+ * Header line recording the configuration fingerprint of a script
+ */
+const FINGERPRINT_MARKER = "deno-hooks-fingerprint:";
+
+/**
+ * Where a previously installed hook runs relative to the configured commands
+ */
+export type ChainPosition = "before" | "after";
+
+/**
+ * Metadata read back from the header of a generated script
+ */
+export interface HookHeader {
+  /** deno-hooks version that generated the script */
+  version?: string;
+  /** Fingerprint of the hook configuration the script was generated from */
+  fingerprint?: string;
+  /** Position of the chained backup hook, if any */
+  chain?: ChainPosition;
+}
+
+/**
+ * Compute a stable fingerprint of a hook's configuration
+ *
+ * Two configurations produce the same fingerprint exactly when they would
+ * generate the same commands for the same hook.
+ *
+ * @param hookName - The git hook name (e.g., "pre-commit")
+ * @param hookConfig - The configuration entry for that hook
+ * @returns A short hex digest
+ */
+export function fingerprintHook(
+  hookName: string,
+  hookConfig: unknown,
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([hookName, hookConfig]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Generate self-contained shell script for a hook
+ *
+ * Commands run in dependency order (see {@linkcode planCommandWaves}). When
+ * `chain` is set, the script also calls the backed up hook with the same
+ * arguments, either before or after the configured commands.
+ */
+export function generateHookScript(
+  hookName: string,
+  entry: HookEntry,
+  chain?: ChainPosition,
+): string {
+  const hook = normalizeHook(entry);
+  let normalized = hook.commands.map((command) =>
+    applyHookDefaults(hook, command)
+  );
+  // pre-push file filters match the files changed by the pushed refs, which
+  // are read from stdin. Like runHook, every command then gets the refs,
+  // unless one of them is the designated reader.
+  const pushedFiles = hookName === "pre-push" && normalized.some(usesFiles);
+  if (pushedFiles && !normalized.some((command) => command.stdin)) {
+    normalized = normalized.map((command) => ({ ...command, stdin: true }));
+  }
+  const waves = planCommandWaves(normalized, hookName);
+  let commandLines = hook.parallel
+    ? parallelBlock(hookName, hook, normalized, waves)
+    : hook.fail_fast === false
+    ? runAllBlock(hookName, normalized, waves)
+    : waves.flat().map((index) => commandBlock(hookName, normalized[index]))
+      .join("\n");
+  if (normalized.some(usesFiles)) {
+    commandLines = `DENO_HOOKS_CHANGED=$(${
+      pushedFiles ? PUSHED_FILES_COMMAND : STAGED_FILES_COMMAND
+    })\n\n${commandLines}`;
+  }
+  if (normalized.some((command) => command.timeout !== undefined)) {
+    commandLines = `${TIMEOUT_BLOCK}\n${commandLines}`;
+  }
+  if (normalized.some((command) => command.cwd !== undefined)) {
+    commandLines = `DENO_HOOKS_ROOT=$(git rev-parse --show-toplevel)\n\n` +
+      commandLines;
+  }
+  if (normalized.some((command) => command.id !== undefined)) {
+    commandLines = `${SKIP_BLOCK}\n${commandLines}`;
+  }
+  if (normalized.some((command) => command.stdin)) {
+    commandLines = `${STDIN_BLOCK}\n${commandLines}`;
+  }
+  if (hook.stash) {
+    commandLines = `${STASH_BLOCK}\n${commandLines}`;
+  }
+
+  const header = [
+    "#!/bin/sh",
+    `# ${HOOK_MARKER} - DO NOT EDIT`,
+    "# To update, run: deno task hooks",
+    `# ${VERSION_MARKER} ${VERSION}`,
+    `# ${FINGERPRINT_MARKER} ${fingerprintHook(hookName, entry)}`,
+  ];
+
+  let body = commandLines;
+  if (chain) {
+    header.push(`# ${CHAIN_MARKER} ${chain}`);
+    const chainLine = `"$(dirname "$0")/${hookName}${BACKUP_SUFFIX}" "$@"`;
+    body = chain === "before"
+      ? `${chainLine}\n\n${commandLines}`
+      : `${commandLines}\n\n${chainLine}`;
+  }
+
+  return `${header.join("\n")}
+
+set -e
+
+# Set DENO_HOOKS=0 to bypass all checks
+if [ "\${DENO_HOOKS:-}" = "0" ]; then
+  echo ${shellQuote(`⚠ DENO_HOOKS=0: skipping all ${hookName} checks`)}
+  exit 0
+fi
+
+${body}
+
+echo "✓ All hooks passed"
+`;
+}
+
+/**
+ * Shell snippet that hides unstaged changes and untracked files while the
+ * commands run and puts them back when the script exits
+ *
+ * Unstaged changes are saved as a patch inside the git directory and
+ * reverted; untracked files are moved into a stash entry. On exit the
+ * stash is popped and the patch re-applied. If the patch conflicts with
+ * files the commands modified (e.g., a formatter), those modifications are
+ * discarded in favor of the user's changes and the hook fails. Nothing is
+ * stashed while a merge is in progress. If restoring fails, the patch file
+ * and stash entry are kept and their location is printed.
+ */
+const STASH_BLOCK =
+  `# Stash unstaged changes and untracked files while the commands run
+DENO_HOOKS_PATCH=""
+DENO_HOOKS_UNTRACKED=""
+deno_hooks_restore() {
+  deno_hooks_status=$?
+  set +e
+  trap - EXIT INT TERM
+  if [ -n "$DENO_HOOKS_UNTRACKED" ]; then
+    if ! git stash pop --quiet; then
+      echo "deno-hooks: could not restore untracked files; they are kept in stash@{0} (git stash list)" >&2
+      deno_hooks_status=1
+    fi
+  fi
+  if [ -n "$DENO_HOOKS_PATCH" ]; then
+    if git apply --whitespace=nowarn "$DENO_HOOKS_PATCH" 2>/dev/null; then
+      rm -f "$DENO_HOOKS_PATCH"
+    else
+      echo "deno-hooks: unstaged changes conflict with files modified by the hooks; discarding the hooks' modifications" >&2
+      git checkout -q -- :/
+      if git apply --whitespace=nowarn "$DENO_HOOKS_PATCH"; then
+        rm -f "$DENO_HOOKS_PATCH"
+      else
+        echo "deno-hooks: could not restore unstaged changes; they are saved in $DENO_HOOKS_PATCH" >&2
+      fi
+      deno_hooks_status=1
+    fi
+  fi
+  exit $deno_hooks_status
+}
+if git rev-parse -q --verify MERGE_HEAD >/dev/null; then
+  echo "deno-hooks: merge in progress, not stashing unstaged changes"
+else
+  trap deno_hooks_restore EXIT
+  trap 'exit 130' INT
+  trap 'exit 143' TERM
+  deno_hooks_patch="$(git rev-parse --git-path "deno-hooks-unstaged.$$.patch")"
+  git diff --binary --no-color --no-ext-diff --ignore-submodules \\
+    --src-prefix=a/ --dst-prefix=b/ >"$deno_hooks_patch"
+  if [ -s "$deno_hooks_patch" ]; then
+    DENO_HOOKS_PATCH="$deno_hooks_patch"
+    git checkout -q -- :/
+    echo "Stashed unstaged changes to $DENO_HOOKS_PATCH"
+  else
+    rm -f "$deno_hooks_patch"
+  fi
+  if git rev-parse -q --verify HEAD >/dev/null &&
+    [ -n "$(git ls-files --others --exclude-standard -- :/)" ]; then
+    git ls-files -z --others --exclude-standard -- :/ |
+      git stash push --quiet --include-untracked \\
+        -m "deno-hooks: untracked files" --pathspec-from-file=- --pathspec-file-nul
+    DENO_HOOKS_UNTRACKED=1
+    echo "Stashed untracked files"
+  fi
+fi
+`;
+
+/**
+ * Generate the shell snippet that runs a hook's commands in parallel
+ *
+ * Each command becomes a shell function run as a background job with its
+ * output written to a temporary file. Waves run one after another, at most
+ * `concurrency` jobs at a time (defaults to the number of CPUs). Output is
+ * printed per command once the job finishes, so it never interleaves. After
+ * a failure no new jobs are started, but running ones are waited for - unless
+ * `fail_fast` is false, in which case only the commands that need a failed
+ * one are left out and a summary is printed at the end.
+ */
+function parallelBlock(
+  hookName: string,
+  hook: HookConfig,
+  commands: CommandConfig[],
+  waves: number[][],
+): string {
+  const jobs = hook.concurrency ??
+    "$(getconf _NPROCESSORS_ONLN 2>/dev/null || echo 4)";
+  const header = `# Run commands in parallel, ${
+    hook.concurrency ?? "one per CPU"
+  } at a time
+DENO_HOOKS_JOBS=${jobs}
+DENO_HOOKS_TMP=$(mktemp -d)
+DENO_HOOKS_PIDS=""
+DENO_HOOKS_RUNNING=0`;
+
+  if (hook.fail_fast === false) {
+    const runWaves = waves.map((wave) =>
+      `for deno_hooks_i in ${wave.join(" ")}; do
+  deno_hooks_start "$deno_hooks_i" "$@"
+done
+deno_hooks_wait`
+    );
+    return `${header}
+
+${summaryFunctions(hookName, commands)}
+
+deno_hooks_wait() {
+  for deno_hooks_job in $DENO_HOOKS_PIDS; do
+    deno_hooks_pid=\${deno_hooks_job%%:*}
+    deno_hooks_n=\${deno_hooks_job#*:}
+    if wait "$deno_hooks_pid"; then deno_hooks_rc=0; else deno_hooks_rc=$?; fi
+    echo ""
+    echo "▶ $(deno_hooks_label "$deno_hooks_n")"
+    cat "$DENO_HOOKS_TMP/$deno_hooks_n.log"
+    deno_hooks_finish "$deno_hooks_n" "$deno_hooks_rc" \\
+      "$(cat "$DENO_HOOKS_TMP/$deno_hooks_n.start")" \\
+      "$(cat "$DENO_HOOKS_TMP/$deno_hooks_n.end")"
+  done
+  DENO_HOOKS_PIDS=""
+  DENO_HOOKS_RUNNING=0
+}
+
+deno_hooks_start() {
+  deno_hooks_n=$1
+  shift
+  if deno_hooks_blocked "$deno_hooks_n"; then
+    deno_hooks_not_run "$deno_hooks_n"
+    return 0
+  fi
+  date +%s >"$DENO_HOOKS_TMP/$deno_hooks_n.start"
+  (
+    set +e
+    ( set -e; "deno_hooks_cmd_$deno_hooks_n" "$@" )
+    deno_hooks_rc=$?
+    date +%s >"$DENO_HOOKS_TMP/$deno_hooks_n.end"
+    exit "$deno_hooks_rc"
+  ) >"$DENO_HOOKS_TMP/$deno_hooks_n.log" 2>&1 &
+  DENO_HOOKS_PIDS="$DENO_HOOKS_PIDS $!:$deno_hooks_n"
+  DENO_HOOKS_RUNNING=$((DENO_HOOKS_RUNNING + 1))
+  if [ "$DENO_HOOKS_RUNNING" -ge "$DENO_HOOKS_JOBS" ]; then
+    deno_hooks_wait
+  fi
+}
+
+${runWaves.join("\n")}
+
+${SUMMARY_EXIT}`;
+  }
+
+  const runWaves = waves.map((wave) =>
+    `if [ "$DENO_HOOKS_FAILED" -eq 0 ]; then
+  for deno_hooks_i in ${wave.join(" ")}; do
+    deno_hooks_start "$deno_hooks_i" "$@"
+  done
+  deno_hooks_wait
+fi`
+  );
+
+  return `${header}
+DENO_HOOKS_FAILED=0
+
+${commandFunctions(hookName, commands, false)}
+
+deno_hooks_wait() {
+  for deno_hooks_job in $DENO_HOOKS_PIDS; do
+    deno_hooks_pid=\${deno_hooks_job%%:*}
+    deno_hooks_n=\${deno_hooks_job#*:}
+    if wait "$deno_hooks_pid"; then deno_hooks_rc=0; else deno_hooks_rc=$?; fi
+    echo ""
+    echo "▶ $(deno_hooks_label "$deno_hooks_n")"
+    cat "$DENO_HOOKS_TMP/$deno_hooks_n.log"
+    if [ "$deno_hooks_rc" -ne 0 ]; then
+      echo "✗ $(deno_hooks_label "$deno_hooks_n") failed with exit code $deno_hooks_rc" >&2
+      DENO_HOOKS_FAILED=1
+    fi
+  done
+  DENO_HOOKS_PIDS=""
+  DENO_HOOKS_RUNNING=0
+}
+
+deno_hooks_start() {
+  [ "$DENO_HOOKS_FAILED" -eq 0 ] || return 0
+  deno_hooks_n=$1
+  shift
+  ( set -e; "deno_hooks_cmd_$deno_hooks_n" "$@" ) >"$DENO_HOOKS_TMP/$deno_hooks_n.log" 2>&1 &
+  DENO_HOOKS_PIDS="$DENO_HOOKS_PIDS $!:$deno_hooks_n"
+  DENO_HOOKS_RUNNING=$((DENO_HOOKS_RUNNING + 1))
+  if [ "$DENO_HOOKS_RUNNING" -ge "$DENO_HOOKS_JOBS" ]; then
+    deno_hooks_wait
+  fi
+}
+
+${runWaves.join("\n")}
+
+rm -rf "$DENO_HOOKS_TMP"
+if [ "$DENO_HOOKS_FAILED" -ne 0 ]; then
+  exit 1
+fi
+`;
+}
+
+/**
+ * Generate the shell snippet that runs every command of a hook with
+ * `fail_fast: false`, one after another in dependency order, and prints a
+ * summary at the end
+ *
+ * Each command runs in a subshell with `set -e` while the script itself
+ * ignores the exit status, so a failure only ends that command. Commands
+ * that need a failed command are not run.
+ */
+function runAllBlock(
+  hookName: string,
+  commands: CommandConfig[],
+  waves: number[][],
+): string {
+  return `# Run every command and print a summary at the end
+DENO_HOOKS_TMP=$(mktemp -d)
+
+${summaryFunctions(hookName, commands)}
+
+deno_hooks_step() {
+  deno_hooks_n=$1
+  shift
+  if deno_hooks_blocked "$deno_hooks_n"; then
+    deno_hooks_not_run "$deno_hooks_n"
+    return 0
+  fi
+  deno_hooks_begin=$(date +%s)
+  set +e
+  ( set -e; "deno_hooks_cmd_$deno_hooks_n" "$@" )
+  deno_hooks_rc=$?
+  set -e
+  deno_hooks_finish "$deno_hooks_n" "$deno_hooks_rc" "$deno_hooks_begin" \\
+    "$(date +%s)"
+}
+
+for deno_hooks_i in ${waves.flat().join(" ")}; do
+  deno_hooks_step "$deno_hooks_i" "$@"
+done
+
+${SUMMARY_EXIT}`;
+}
+
+/**
+ * Shell functions `deno_hooks_cmd_N` running each command, and
+ * `deno_hooks_label N` printing its text
+ */
+function commandFunctions(
+  hookName: string,
+  commands: CommandConfig[],
+  summary: boolean,
+): string {
+  const functions = commands.map((command, index) =>
+    `deno_hooks_cmd_${index}() {\n${
+      indent(commandBlock(hookName, command, summary))
+    }\n}`
+  );
+  const labels = commands.map((command, index) =>
+    `    ${index}) echo ${shellQuote(command.run)} ;;`
+  );
+  return `${functions.join("\n\n")}
+
+deno_hooks_label() {
+  case "$1" in
+${labels.join("\n")}
+  esac
+}`;
+}
+
+/**
+ * Shell functions that record each command's outcome for the summary of a
+ * hook with `fail_fast: false`
+ *
+ * `deno_hooks_finish N RC BEGIN END` records a command that ran (skipped
+ * commands leave an `N.skipped` marker), `deno_hooks_blocked N` tells
+ * whether a command needs one that failed, and `deno_hooks_summary` prints
+ * one row per command in configuration order. `DENO_HOOKS_FAILED_IDS` lists
+ * the commands that failed or were not run.
+ */
+function summaryFunctions(hookName: string, commands: CommandConfig[]): string {
+  const width = Math.max(...commands.map((command) => command.run.length));
+  const needs = commandDependencies(commands).flatMap((dependencies, index) =>
+    dependencies.length === 0
+      ? []
+      : [`    ${index}) echo ${shellQuote(dependencies.join(" "))} ;;`]
+  );
+  return `${commandFunctions(hookName, commands, true)}
+
+DENO_HOOKS_FAILED_IDS=" "
+deno_hooks_needs() {
+  case "$1" in
+${needs.join("\n")}
+  esac
+}
+deno_hooks_blocked() {
+  for deno_hooks_need in $(deno_hooks_needs "$1"); do
+    case "$DENO_HOOKS_FAILED_IDS" in
+      *" $deno_hooks_need "*) return 0 ;;
+    esac
+  done
+  return 1
+}
+deno_hooks_row() {
+  printf '  %s %-${width}s  %s\\n' "$2" "$(deno_hooks_label "$1")" "$3" \\
+    >"$DENO_HOOKS_TMP/$1.summary"
+}
+deno_hooks_not_run() {
+  echo ""
+  echo "Skipped: $(deno_hooks_label "$1") (a command it needs failed)"
+  DENO_HOOKS_FAILED_IDS="$DENO_HOOKS_FAILED_IDS$1 "
+  deno_hooks_row "$1" "-" "not run (needs a failed command)"
+}
+deno_hooks_finish() {
+  deno_hooks_seconds=$(($4 - $3))
+  if [ "$2" -ne 0 ]; then
+    echo "✗ $(deno_hooks_label "$1") failed with exit code $2" >&2
+    DENO_HOOKS_FAILED_IDS="$DENO_HOOKS_FAILED_IDS$1 "
+    deno_hooks_row "$1" "✗" "failed in \${deno_hooks_seconds}s (exit code $2)"
+  elif [ -e "$DENO_HOOKS_TMP/$1.skipped" ]; then
+    deno_hooks_row "$1" "-" "skipped"
+  else
+    deno_hooks_row "$1" "✓" "passed in \${deno_hooks_seconds}s"
+  fi
+}
+deno_hooks_summary() {
+  echo ""
+  echo ${shellQuote(`${hookName} summary:`)}
+  for deno_hooks_i in ${commands.map((_, index) => index).join(" ")}; do
+    cat "$DENO_HOOKS_TMP/$deno_hooks_i.summary"
+  done
+}`;
+}
+
+/**
+ * Shell snippet ending a hook with `fail_fast: false`: prints the summary
+ * and fails if any command failed
+ */
+const SUMMARY_EXIT = `deno_hooks_summary
+rm -rf "$DENO_HOOKS_TMP"
+if [ "$DENO_HOOKS_FAILED_IDS" != " " ]; then
+  exit 1
+fi
+`;
+
+/**
+ * Indent every non-empty line of a shell snippet by two spaces
+ */
+function indent(snippet: string): string {
+  return snippet.split("\n").map((line) => line ? `  ${line}` : line).join(
+    "\n",
+  );
+}
+
+/**
+ * Shell snippet that saves the hook's stdin for the command that reads it
+ *
+ * The trailing `x` keeps command substitution from stripping newlines at the
+ * end of the input.
+ */
+const STDIN_BLOCK = `# Save stdin for the command that reads it
+DENO_HOOKS_STDIN=$(cat; echo x)
+DENO_HOOKS_STDIN=\${DENO_HOOKS_STDIN%x}
+`;
+
+/**
+ * Shell functions that stop a command once its timeout expires
+ *
+ * `deno_hooks_await PID SECONDS LABEL` waits for a background job while a
+ * watchdog sleeps; if the watchdog wakes up first it stops the job and all
+ * of its child processes, and the hook fails with exit code 124.
+ */
+const TIMEOUT_BLOCK =
+  `# Stop commands that run longer than their timeout; each process is paused
+# while its children are stopped, so it cannot start new ones
+deno_hooks_kill_tree() {
+  kill -STOP "$1" 2>/dev/null || return 0
+  for deno_hooks_child in $(ps -A -o pid= -o ppid= | awk -v parent="$1" '$2 == parent { print $1 }'); do
+    deno_hooks_kill_tree "$deno_hooks_child"
+  done
+  kill -TERM "$1" 2>/dev/null || true
+  kill -CONT "$1" 2>/dev/null || true
+}
+deno_hooks_await() {
+  deno_hooks_expired=$(mktemp)
+  rm -f "$deno_hooks_expired"
+  (sleep "$2" && : >"$deno_hooks_expired" && deno_hooks_kill_tree "$1") >/dev/null 2>&1 &
+  deno_hooks_watchdog=$!
+  if wait "$1"; then deno_hooks_rc=0; else deno_hooks_rc=$?; fi
+  deno_hooks_kill_tree "$deno_hooks_watchdog"
+  if [ -e "$deno_hooks_expired" ]; then
+    rm -f "$deno_hooks_expired"
+    echo "✗ $3 timed out after $2s and was stopped" >&2
+    return 124
+  fi
+  return "$deno_hooks_rc"
+}
+`;
+
+/**
+ * Shell function telling whether a command id is listed in
+ * `DENO_HOOKS_SKIP` (comma-separated); package commands also match by their
+ * id without the package directory
+ */
+const SKIP_BLOCK = `# Skip commands whose id is listed in DENO_HOOKS_SKIP
+DENO_HOOKS_SKIP_IDS=",$(printf '%s' "\${DENO_HOOKS_SKIP:-}" | tr -d ' '),"
+deno_hooks_skip() {
+  case "$DENO_HOOKS_SKIP_IDS" in
+    *",$1,"* | *",\${1##*/},"*) return 0 ;;
+  esac
+  return 1
+}
+`;
+
+/**
+ * Generate the shell snippet for one command, which is skipped when its id
+ * is listed in `DENO_HOOKS_SKIP`
+ *
+ * With `summary`, skipped commands leave a marker for
+ * {@linkcode summaryFunctions}.
+ */
+function commandBlock(
+  hookName: string,
+  command: CommandConfig,
+  summary = false,
+): string {
+  const block = commandBody(hookName, command, summary);
+  if (command.id === undefined) return block;
+  return `if deno_hooks_skip ${shellQuote(command.id)}; then
+  echo ${
+    shellQuote(`Skipped: ${command.run} (${command.id} is in DENO_HOOKS_SKIP)`)
+  }${summary ? `\n  ${SKIPPED_MARKER}` : ""}
+else
+${indent(block)}
+fi`;
+}
+
+/**
+ * Generate the shell snippet that runs one command
+ *
+ * Placeholders are expanded and commands with `stdin` get the saved stdin
+ * piped in. Commands with file filters only run when a changed file (staged,
+ * or pushed for pre-push) matches, and with `pass_filenames` receive the matching files through `xargs`,
+ * which splits long lists into batches.
+ */
+function commandBody(
+  hookName: string,
+  command: CommandConfig,
+  summary: boolean,
+): string {
+  const expanded = expandPlaceholders(hookName, command.run);
+  let run = expanded;
+  if (command.stdin) {
+    run = `printf '%s' "$DENO_HOOKS_STDIN" | {\n${indent(run)}\n}`;
+  }
+  if (!usesFiles(command)) {
+    return isolate(command, run);
+  }
+
+  let select = `printf '%s\\n' "$DENO_HOOKS_CHANGED"`;
+  if (command.files !== undefined) {
+    select += ` | grep -E ${shellQuote(globsToRegExpSource(command.files))}`;
+  }
+  if (command.exclude !== undefined) {
+    select += ` | grep -vE ${shellQuote(globsToRegExpSource(command.exclude))}`;
+  }
+
+  // Outside the repository root, pass absolute paths
+  const absolute = command.cwd === undefined
+    ? ""
+    : ` | awk -v root="$DENO_HOOKS_ROOT" '{ print root "/" $0 }'`;
+  const invoke = command.pass_filenames
+    ? `printf '%s\\n' "$DENO_HOOKS_FILES"${absolute} | tr '\\n' '\\0' | xargs -0 sh -c ${
+      shellQuote(`${expanded} "$@"`)
+    } "$0"`
+    : run;
+
+  return isolate(
+    command,
+    `DENO_HOOKS_FILES=$(${select} || true)
+if [ -n "$DENO_HOOKS_FILES" ]; then
+${indent(invoke)}
+else
+  echo ${shellQuote(`Skipped: ${command.run} (no matching files)`)}${
+      summary ? `\n  ${SKIPPED_MARKER}` : ""
+    }
+fi`,
+  );
+}
+
+/**
+ * Shell command marking the running command as skipped for the summary
+ */
+const SKIPPED_MARKER = `: >"$DENO_HOOKS_TMP/$deno_hooks_n.skipped"`;
+
+/**
+ * Run a command snippet in a subshell with its `cwd` and `env`, under a
+ * watchdog if it has a `timeout`
+ */
+function isolate(command: CommandConfig, snippet: string): string {
+  const setup: string[] = [];
+  if (command.cwd !== undefined) {
+    setup.push(`cd "$DENO_HOOKS_ROOT"/${shellQuote(command.cwd)}`);
+  }
+  for (const [name, value] of Object.entries(command.env ?? {})) {
+    setup.push(`export ${name}=${shellQuote(String(value))}`);
+  }
+  const seconds = command.timeout === undefined
+    ? undefined
+    : parseTimeout(command.timeout);
+  if (setup.length === 0 && seconds === undefined) {
+    return snippet;
+  }
+
+  const subshell = `(\n${indent([...setup, snippet].join("\n"))}\n)`;
+  if (seconds === undefined) {
+    return subshell;
+  }
+  return `${subshell} &
+deno_hooks_await $! ${seconds} ${shellQuote(command.run)}`;
+}
+
+/**
+ * Quote a string for safe use as a single `sh` word
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Read the metadata recorded in the header of a generated script
+ *
+ * Scripts written by older versions of deno-hooks carry only the marker, so
+ * every field is optional.
+ */
+export function parseHookHeader(script: string): HookHeader {
+  const read = (marker: string) =>
+    script.match(new RegExp(`^# ${marker} (\\S+)$`, "m"))?.[1];
+
+  const chain = read(CHAIN_MARKER);
+  return {
+    version: read(VERSION_MARKER),
+    fingerprint: read(FINGERPRINT_MARKER),
+    chain: chain === "before" || chain === "after" ? chain : undefined,
+  };
+}
+
+/**
+ * Check whether a hook script was generated by deno-hooks
+ *
+ * @param hookPath - Path to the hook script
+ * @returns True if the file exists and carries the deno-hooks header
+ */
+export async function isGeneratedHook(hookPath: string): Promise<boolean> {
+  try {
+    const content = await Deno.readTextFile(hookPath);
+    return content.includes(HOOK_MARKER);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List hook scripts and deno-hooks backups in the hooks directory
+ *
+ * Git's own `*.sample` files are ignored. Backups are reported by the name
+ * of the hook they belong to.
+ */
+export async function listHookFiles(
+  hooksDir: string,
+): Promise<{ hooks: string[]; backups: string[] }> {
+  const hooks: string[] = [];
+  const backups: string[] = [];
+
+  try {
+    for await (const entry of Deno.readDir(hooksDir)) {
+      if (!entry.isFile) continue;
+      if (entry.name.endsWith(BACKUP_SUFFIX)) {
+        backups.push(entry.name.slice(0, -BACKUP_SUFFIX.length));
+      } else if (!entry.name.endsWith(".sample")) {
+        hooks.push(entry.name);
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  return { hooks: hooks.sort(), backups: backups.sort() };
+}
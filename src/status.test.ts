@@ -0,0 +1,69 @@
+/**
+ * Tests for status
+ */
+
+import { expect } from "@std/expect";
+import { install } from "./install.ts";
+import { status } from "./status.ts";
+import { withTempRepo } from "./test-utils.ts";
+
+Deno.test("status - detects missing, stale, extra and foreign hooks", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - deno task fmt\n  pre-push:\n    - deno task test\n",
+    );
+    await install({ yes: true });
+    expect((await status()).inSync).toBe(true);
+
+    await Deno.writeTextFile(
+      `${root}/.git/hooks/post-checkout`,
+      "#!/bin/sh\ngit lfs post-checkout\n",
+    );
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - deno task lint\n  commit-msg:\n    - deno task msg\n",
+    );
+
+    const result = await status();
+    const states = Object.fromEntries(
+      result.hooks.map((h) => [h.hook, h.state]),
+    );
+    expect(states).toEqual({
+      "commit-msg": "missing",
+      "post-checkout": "foreign",
+      "pre-commit": "stale",
+      "pre-push": "extra",
+    });
+    expect(result.inSync).toBe(false);
+  });
+});
+
+Deno.test("status - reports hooks generated by another version as stale", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - deno task fmt\n",
+    );
+    await install({ yes: true });
+    const hookPath = `${root}/.git/hooks/pre-commit`;
+    const script = await Deno.readTextFile(hookPath);
+    await Deno.writeTextFile(
+      hookPath,
+      script.replace(
+        /^# deno-hooks-version: .*$/m,
+        "# deno-hooks-version: 0.0.1",
+      ),
+    );
+
+    const result = await status();
+
+    expect(result.hooks).toEqual([{
+      hook: "pre-commit",
+      state: "stale",
+      configured: true,
+      installedVersion: "0.0.1",
+    }]);
+    expect(result.inSync).toBe(false);
+  });
+});
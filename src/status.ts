@@ -0,0 +1,196 @@
+/**
+ * Drift detection between configuration and installed hooks
+ *
+ * Compares every hook in the configuration with the script installed in the
+ * hooks directory, using the fingerprint embedded in generated scripts.
+ *
+ * @example CLI usage
+ * ```bash
+ * # Exits non-zero when hooks are out of sync with the configuration
+ * deno run -A jsr:@theswanfactory/deno-hooks status
+ * ```
+ *
+ * @module
+ */
+
+import { getInstallableHooks, loadConfig } from "./config.ts";
+import { getGitRoot, getHooksDir } from "./git.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import {
+  fingerprintHook,
+  HOOK_MARKER,
+  listHookFiles,
+  parseHookHeader,
+  VERSION,
+} from "./script.ts";
+
+/**
+ * Options for checking hook status
+ */
+export interface StatusOptions {
+  /** Show detailed output, including hooks that are up to date */
+  verbose?: boolean;
+  /** Where the report and configuration warnings go (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * State of a single hook
+ *
+ * - `ok`: installed and generated from the current configuration
+ * - `missing`: configured but not installed
+ * - `stale`: installed by deno-hooks from a different configuration, or by
+ *   another deno-hooks version whose script may differ
+ * - `extra`: installed by deno-hooks but no longer configured
+ * - `foreign`: a hook deno-hooks did not generate
+ */
+export type HookState = "ok" | "missing" | "stale" | "extra" | "foreign";
+
+/**
+ * Status of a single hook
+ */
+export interface HookStatus {
+  /** Git hook name (e.g., "pre-commit") */
+  hook: string;
+  /** Whether the hook is in sync with the configuration */
+  state: HookState;
+  /** Whether the hook appears in the configuration */
+  configured: boolean;
+  /** deno-hooks version that generated the installed script, if known */
+  installedVersion?: string;
+}
+
+/**
+ * Result of {@linkcode status}
+ */
+export interface StatusResult {
+  /** Hooks directory that was inspected */
+  hooksDir: string;
+  /**
+   * Configuration files that were read: the root configuration first, then
+   * those of monorepo packages
+   */
+  configPaths: string[];
+  /** Status of every configured or installed hook, sorted by name */
+  hooks: HookStatus[];
+  /**
+   * True when every configured hook is installed and up to date and no
+   * stale deno-hooks scripts are left behind
+   */
+  inSync: boolean;
+}
+
+/**
+ * Compare the configuration against the installed hook scripts
+ *
+ * Foreign hooks are only counted as out of sync when the configuration
+ * expects deno-hooks to own them; unrelated hooks are merely reported.
+ *
+ * @param options - Status options
+ * @returns The state of every hook and whether everything is in sync
+ * @throws {Error} If not in a git repository
+ * @throws {Error} If no configuration found or it is invalid
+ *
+ * @example
+ * ```ts
+ * import { status } from "@theswanfactory/deno-hooks";
+ *
+ * const { inSync } = await status();
+ * if (!inSync) Deno.exit(1);
+ * ```
+ */
+export async function status(
+  options: StatusOptions = {},
+): Promise<StatusResult> {
+  const { verbose = false, logger = consoleLogger } = options;
+  const log = (message: string) => logger.info(message);
+
+  const gitRoot = await getGitRoot();
+  const configPaths: string[] = [];
+  const config = await loadConfig(gitRoot, {
+    logger,
+    onFile: (file) => configPaths.push(file),
+  });
+  const { path: hooksDir } = await getHooksDir(gitRoot);
+  const installed = (await listHookFiles(hooksDir)).hooks;
+
+  const configuredHooks = getInstallableHooks(config);
+  const names = [...new Set([...configuredHooks, ...installed])].sort();
+
+  const hooks: HookStatus[] = [];
+  for (const hook of names) {
+    const configured = configuredHooks.includes(hook);
+    let content: string | undefined;
+    if (installed.includes(hook)) {
+      content = await Deno.readTextFile(`${hooksDir}/${hook}`);
+    }
+
+    if (content === undefined) {
+      hooks.push({ hook, state: "missing", configured });
+      continue;
+    }
+
+    if (!content.includes(HOOK_MARKER)) {
+      hooks.push({ hook, state: "foreign", configured });
+      continue;
+    }
+
+    const header = parseHookHeader(content);
+    let state: HookState = "extra";
+    if (configured) {
+      const expected = fingerprintHook(hook, config.hooks[hook]);
+      state = header.fingerprint === expected && header.version === VERSION
+        ? "ok"
+        : "stale";
+    }
+    hooks.push({
+      hook,
+      state,
+      configured,
+      installedVersion: header.version,
+    });
+  }
+
+  const inSync = hooks.every((h) =>
+    h.state === "ok" || (h.state === "foreign" && !h.configured)
+  );
+
+  log(`Hooks directory: ${hooksDir}\n`);
+  for (const h of hooks) {
+    if (h.state === "ok" && !verbose) continue;
+    log(`  ${h.state.padEnd(8)} ${h.hook}${describe(h)}`);
+  }
+  if (inSync) {
+    log("\n✓ Installed hooks match the configuration");
+  } else {
+    log(
+      "\nHooks are out of sync with the configuration. To update, run: deno task hooks",
+    );
+  }
+
+  return { hooksDir, configPaths, hooks, inSync };
+}
+
+/**
+ * Explain a hook's state in one short suffix
+ */
+function describe(h: HookStatus): string {
+  switch (h.state) {
+    case "missing":
+      return " (configured but not installed)";
+    case "stale":
+      return h.installedVersion === VERSION
+        ? " (configuration changed since install)"
+        : ` (generated by deno-hooks ${
+          h.installedVersion ?? "of an older version"
+        }, now ${VERSION})`;
+    case "extra":
+      return " (installed by deno-hooks but no longer configured)";
+    case "foreign":
+      return h.configured
+        ? " (configured, but a hook not generated by deno-hooks is installed)"
+        : " (not managed by deno-hooks)";
+    default:
+      return "";
+  }
+}
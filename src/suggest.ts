@@ -0,0 +1,62 @@
+/**
+ * Suggestions for mistyped names
+ *
+ * Used for hook names git does not know and for `deno task` names the
+ * project does not define.
+ *
+ * @module
+ */
+
+/**
+ * Find the name a mistyped one was probably meant to be
+ *
+ * Case, `-` and `_` are ignored, so `typecheck` suggests `type-check`.
+ *
+ * @param name - The name as written (e.g., "pre-comit")
+ * @param candidates - Names that exist, in order of preference
+ * @returns The closest candidate, if any is close enough
+ *
+ * @example
+ * ```ts
+ * suggestName("tset", ["test", "lint"]); // "test"
+ * ```
+ */
+export function suggestName(
+  name: string,
+  candidates: Iterable<string>,
+): string | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[-_]/g, "");
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3));
+  for (const candidate of candidates) {
+    const distance = editDistance(normalize(name), normalize(candidate));
+    // Ties go to the candidate listed first
+    if (
+      distance < bestDistance ||
+      (distance === bestDistance && best === undefined)
+    ) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
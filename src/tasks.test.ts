@@ -0,0 +1,113 @@
+/**
+ * Tests for checking `deno task` references
+ */
+
+import { expect } from "@std/expect";
+import { checkTasks, findTaskReferences } from "./tasks.ts";
+import { withTempRepo } from "./test-utils.ts";
+
+Deno.test("findTaskReferences - finds tasks in compound commands", () => {
+  expect(
+    findTaskReferences(
+      "deno task fmt && (cd web; deno task -q --config=web/deno.json build) | tee log",
+    ),
+  ).toEqual([
+    { task: "fmt", recursive: false },
+    { task: "build", config: "web/deno.json", recursive: false },
+  ]);
+  expect(findTaskReferences('deno task --filter "api*" "test:unit"')).toEqual([
+    { task: "test:unit", recursive: true },
+  ]);
+  // Nothing to check: no name, computed names and --eval
+  expect(
+    findTaskReferences(
+      "deno task; deno task $TASK; deno task {1}; deno task --eval 'echo hi'",
+    ),
+  ).toEqual([]);
+  expect(findTaskReferences("echo deno task is great")).toEqual([]);
+});
+
+Deno.test("checkTasks - resolves tasks per directory in a workspace", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.mkdir(`${root}/packages/api`, { recursive: true });
+    await Deno.writeTextFile(
+      `${root}/deno.json`,
+      `{
+  // Shared tasks
+  "workspace": ["./packages/*"],
+  "tasks": { "fmt": "deno fmt", "type-check": "deno check" },
+}
+`,
+    );
+    await Deno.writeTextFile(
+      `${root}/packages/api/deno.jsonc`,
+      `{ "tasks": { "serve": { "command": "deno serve main.ts" } } }`,
+    );
+    await Deno.writeTextFile(
+      `${root}/package.json`,
+      JSON.stringify({ scripts: { e2e: "playwright test" } }),
+    );
+
+    const problems = await checkTasks({
+      hooks: {
+        "pre-commit": [
+          "deno task fmt && deno task e2e",
+          "deno task typecheck",
+          "deno task serve",
+          { run: "deno task serve && deno task fmt", cwd: "packages/api" },
+        ],
+        "pre-push": ["deno task -r serve", "deno task --recursive deploy"],
+      },
+    }, root);
+
+    expect(problems.map(({ message }) => message)).toEqual([
+      'pre-commit: task "typecheck" is not defined in deno.json or package.json (did you mean "type-check"?)',
+      'pre-commit: task "serve" is not defined in deno.json or package.json; packages/api defines it, so set cwd: packages/api',
+      'pre-push: task "deploy" is not defined in deno.json or package.json or any workspace member',
+    ]);
+    expect(problems[0]).toMatchObject({
+      hook: "pre-commit",
+      command: "deno task typecheck",
+      task: "typecheck",
+      dir: "",
+      files: ["deno.json", "package.json"],
+      suggestion: "type-check",
+    });
+  });
+});
+
+Deno.test("checkTasks - reports a missing deno.json", async () => {
+  await withTempRepo(async (root) => {
+    const problems = await checkTasks({
+      hooks: { "pre-commit": ["deno task lint"] },
+    }, root);
+    expect(problems.map(({ message }) => message)).toEqual([
+      'pre-commit: task "lint" cannot run: there is no deno.json, deno.jsonc or package.json in the repository root',
+    ]);
+  });
+});
+
+Deno.test("checkTasks - reads a deno.jsonc workspace root", async () => {
+  await withTempRepo(async (root) => {
+    await Deno.mkdir(`${root}/packages/api`, { recursive: true });
+    await Deno.writeTextFile(
+      `${root}/deno.jsonc`,
+      `{ "workspace": ["./packages/*"], "tasks": { "fmt": "deno fmt" } }`,
+    );
+    await Deno.writeTextFile(
+      `${root}/packages/api/deno.json`,
+      `{ "tasks": { "serve": "deno serve main.ts" } }`,
+    );
+
+    const problems = await checkTasks({
+      hooks: {
+        "pre-commit": [
+          "deno task -r serve",
+          { run: "deno task fmt", cwd: "packages/api" },
+        ],
+      },
+    }, root);
+
+    expect(problems).toEqual([]);
+  });
+});
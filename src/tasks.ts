@@ -0,0 +1,365 @@
+/**
+ * Check that `deno task` commands refer to tasks the project defines
+ *
+ * A command such as `deno task typecheck` only fails once git runs the hook.
+ * {@linkcode checkTasks} finds these references and resolves them the way
+ * `deno task` does: against the `tasks` of the nearest deno.json or
+ * deno.jsonc above the command's directory, the scripts of the nearest
+ * package.json, and the workspace root's tasks. With `--recursive` or
+ * `--filter`, the tasks of every workspace member count.
+ *
+ * @example
+ * ```ts
+ * import { checkTasks, loadConfig } from "@theswanfactory/deno-hooks";
+ *
+ * const config = await loadConfig(Deno.cwd());
+ * for (const problem of await checkTasks(config, Deno.cwd())) {
+ *   console.error(problem.message);
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { parse as parseJsonc } from "@std/jsonc";
+import { dirname, isAbsolute, join, relative } from "@std/path";
+import { applyHookDefaults, type Config, getHookConfig } from "./config.ts";
+import { suggestName } from "./suggest.ts";
+import {
+  findPackageDirs,
+  normalizePackageDir,
+  readWorkspaceMembers,
+} from "./workspace.ts";
+
+/**
+ * A `deno task` invocation found in a command
+ */
+export interface TaskReference {
+  /** Name of the task */
+  task: string;
+  /** Configuration file given with `--config`, as written */
+  config?: string;
+  /** Whether it runs in every workspace member (`--recursive`, `--filter`) */
+  recursive: boolean;
+}
+
+/**
+ * A command that runs a task the project does not define
+ */
+export interface TaskProblem {
+  /** Git hook the command belongs to */
+  hook: string;
+  /** The command's `run` */
+  command: string;
+  /** Name of the missing task */
+  task: string;
+  /** Directory the command runs in, relative to the repository root */
+  dir: string;
+  /** Files the task was looked up in, relative to the repository root */
+  files: string[];
+  /** The closest task name that exists, if any */
+  suggestion?: string;
+  /** Workspace member that defines the task, if one does */
+  member?: string;
+  /** What is wrong, in one line */
+  message: string;
+}
+
+/**
+ * Tasks defined by a set of configuration files
+ */
+interface TaskSet {
+  /** Task and script names, in file order */
+  tasks: string[];
+  /** Files they come from, relative to the repository root */
+  files: string[];
+}
+
+/**
+ * `deno task` flags that take a value
+ */
+const VALUE_FLAGS = ["--config", "-c", "--cwd", "--filter", "-f"];
+
+/**
+ * Find the `deno task` invocations in a shell command
+ *
+ * Names that are computed (placeholders, variables, wildcards) and
+ * `deno task --eval` are left out, since they cannot be checked.
+ *
+ * @param run - A shell command
+ * @returns The tasks it runs, in order
+ *
+ * @example
+ * ```ts
+ * findTaskReferences("deno task fmt && deno task -r test");
+ * // [{ task: "fmt", recursive: false }, { task: "test", recursive: true }]
+ * ```
+ */
+export function findTaskReferences(run: string): TaskReference[] {
+  const references: TaskReference[] = [];
+  for (const segment of run.split(/&&|\|\||[;|&\n()]/)) {
+    const words = segment.trim().split(/\s+/).map((word) =>
+      word.replace(/^(["'])(.*)\1$/, "$2")
+    );
+    // The command word, after any VAR=value assignments
+    const start = words.findIndex((word) => !/^\w+=/.test(word));
+    const program = words[start] ?? "";
+    if (
+      (program !== "deno" && !program.endsWith("/deno")) ||
+      words[start + 1] !== "task"
+    ) {
+      continue;
+    }
+
+    const reference: TaskReference = { task: "", recursive: false };
+    for (let index = start + 2; index < words.length; index++) {
+      const [flag, inline] = words[index].split(/=(.*)/);
+      if (flag === "--eval") break;
+      if (VALUE_FLAGS.includes(flag)) {
+        const value = inline ?? words[++index];
+        if (flag === "--config" || flag === "-c") reference.config = value;
+        if (flag === "--filter" || flag === "-f") reference.recursive = true;
+      } else if (flag === "--recursive" || flag === "-r") {
+        reference.recursive = true;
+      } else if (!flag.startsWith("-")) {
+        reference.task = words[index];
+        break;
+      }
+    }
+    if (/^[\w:.-]+$/.test(reference.task)) references.push(reference);
+  }
+  return references;
+}
+
+/**
+ * Find commands that run `deno task` with a task the project does not
+ * define
+ *
+ * Each command is resolved from its effective `cwd` (including the package
+ * directory of monorepo commands). A missing task comes with the closest
+ * existing name and, when a workspace member defines it, that member.
+ *
+ * @param config - The loaded configuration
+ * @param rootDir - The git repository root directory
+ * @returns One problem per missing task reference, in hook order
+ * @throws {Error} If a deno.json, deno.jsonc or package.json cannot be
+ *   parsed
+ */
+export async function checkTasks(
+  config: Config,
+  rootDir: string,
+): Promise<TaskProblem[]> {
+  const cache = new Map<string, Promise<TaskSet>>();
+  const cached = (key: string, read: () => Promise<TaskSet>) => {
+    if (!cache.has(key)) cache.set(key, read());
+    return cache.get(key)!;
+  };
+  let members: Promise<Map<string, TaskSet>> | undefined;
+
+  const problems: TaskProblem[] = [];
+  for (const hookName of Object.keys(config.hooks)) {
+    const hook = getHookConfig(config, hookName);
+    for (const command of hook.commands) {
+      const { run, cwd = "" } = applyHookDefaults(hook, command);
+      const references = findTaskReferences(run);
+      if (references.length === 0) continue;
+      // Commands that run outside the repository cannot be checked
+      if (isAbsolute(cwd)) continue;
+      const dir = relative(rootDir, join(rootDir, cwd));
+      if (dir.startsWith("..")) continue;
+
+      for (const reference of references) {
+        let available: TaskSet;
+        if (reference.config !== undefined) {
+          const file = normalizePackageDir(join(dir, reference.config));
+          available = await cached(
+            `config:${file}`,
+            () => readTaskFile(rootDir, file),
+          );
+        } else {
+          available = await cached(
+            `dir:${dir}`,
+            () => readDirTasks(rootDir, dir),
+          );
+        }
+        members ??= readMemberTasks(rootDir);
+        const memberTasks = [...(await members).entries()];
+        const candidates = reference.recursive
+          ? [
+            ...available.tasks,
+            ...memberTasks.flatMap(([, { tasks }]) => tasks),
+          ]
+          : available.tasks;
+        if (candidates.includes(reference.task)) continue;
+
+        const suggestion = suggestName(reference.task, new Set(candidates));
+        const member = reference.recursive
+          ? undefined
+          : memberTasks.find(([, set]) => set.tasks.includes(reference.task))
+            ?.[0];
+        problems.push({
+          hook: hookName,
+          command: run,
+          task: reference.task,
+          dir,
+          files: available.files,
+          suggestion,
+          member,
+          message: describeProblem(hookName, reference, dir, available, {
+            suggestion,
+            member,
+          }),
+        });
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Describe a missing task in one line
+ */
+function describeProblem(
+  hookName: string,
+  reference: TaskReference,
+  dir: string,
+  available: TaskSet,
+  hints: { suggestion?: string; member?: string },
+): string {
+  const where = available.files.length > 0
+    ? `is not defined in ${available.files.join(" or ")}`
+    : reference.config !== undefined
+    ? `cannot run: ${reference.config} does not exist`
+    : `cannot run: there is no deno.json, deno.jsonc or package.json in ${
+      dir === "" ? "the repository root" : `${dir} or above`
+    }`;
+  const scope = reference.recursive ? " or any workspace member" : "";
+  let message = `${hookName}: task "${reference.task}" ${where}${scope}`;
+  if (hints.suggestion) message += ` (did you mean "${hints.suggestion}"?)`;
+  if (hints.member) {
+    message += `; ${hints.member} defines it, so set cwd: ${hints.member}`;
+  }
+  return message;
+}
+
+/**
+ * Tasks `deno task` sees in a directory: the nearest deno.json or
+ * deno.jsonc, the nearest package.json and the workspace root
+ */
+async function readDirTasks(rootDir: string, dir: string): Promise<TaskSet> {
+  const result: TaskSet = { tasks: [], files: [] };
+  const add = (found: TaskSet) => {
+    result.tasks.push(...found.tasks);
+    result.files.push(...found.files);
+  };
+
+  let denoConfig: string | undefined;
+  let packageJson: string | undefined;
+  for (let current = dir;; current = parentDir(current)) {
+    for (const name of ["deno.json", "deno.jsonc"]) {
+      const file = normalizePackageDir(`${current}/${name}`);
+      if (denoConfig === undefined && await isFile(`${rootDir}/${file}`)) {
+        denoConfig = file;
+      }
+    }
+    const file = normalizePackageDir(`${current}/package.json`);
+    if (packageJson === undefined && await isFile(`${rootDir}/${file}`)) {
+      packageJson = file;
+    }
+    if (current === "") break;
+  }
+
+  if (denoConfig !== undefined) add(await readTaskFile(rootDir, denoConfig));
+  if (packageJson !== undefined) add(await readTaskFile(rootDir, packageJson));
+  // Members of a workspace can run the root's tasks
+  if (
+    denoConfig !== undefined && dirname(denoConfig) !== "." &&
+    await readWorkspaceMembers(rootDir) !== undefined
+  ) {
+    for (const name of ["deno.json", "deno.jsonc"]) {
+      if (await isFile(`${rootDir}/${name}`)) {
+        add(await readTaskFile(rootDir, name));
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Tasks defined by each workspace member, by member directory
+ */
+async function readMemberTasks(
+  rootDir: string,
+): Promise<Map<string, TaskSet>> {
+  const members = new Map<string, TaskSet>();
+  const patterns = await readWorkspaceMembers(rootDir);
+  if (patterns === undefined) return members;
+  for (const dir of await findPackageDirs(rootDir, patterns)) {
+    for (const name of ["deno.json", "deno.jsonc", "package.json"]) {
+      if (!await isFile(`${rootDir}/${dir}/${name}`)) continue;
+      const found = await readTaskFile(rootDir, `${dir}/${name}`);
+      const existing = members.get(dir);
+      members.set(dir, {
+        tasks: [...existing?.tasks ?? [], ...found.tasks],
+        files: [...existing?.files ?? [], ...found.files],
+      });
+    }
+  }
+  return members;
+}
+
+/**
+ * Read the task names of a deno.json or deno.jsonc (`tasks`) or a
+ * package.json (`scripts`)
+ *
+ * @param file - Path relative to the repository root
+ */
+async function readTaskFile(rootDir: string, file: string): Promise<TaskSet> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(`${rootDir}/${file}`);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return { tasks: [], files: [] };
+    throw error;
+  }
+  let document: unknown;
+  try {
+    // deno.json may contain comments, like deno.jsonc
+    document = parseJsonc(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse ${file}: ${message}`);
+  }
+  const key = file.endsWith("package.json") ? "scripts" : "tasks";
+  const tasks = typeof document === "object" && document !== null
+    ? (document as Record<string, unknown>)[key]
+    : undefined;
+  return {
+    tasks: typeof tasks === "object" && tasks !== null
+      ? Object.keys(tasks)
+      : [],
+    files: [file],
+  };
+}
+
+/**
+ * The parent of a directory relative to the repository root (`""` for the
+ * root)
+ */
+function parentDir(dir: string): string {
+  const index = dir.lastIndexOf("/");
+  return index === -1 ? "" : dir.slice(0, index);
+}
+
+/**
+ * Whether a path is an existing file
+ */
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isFile;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
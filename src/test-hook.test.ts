@@ -3,7 +3,16 @@
  */
 
 import { expect } from "@std/expect";
-import { loadConfig } from "./config.ts";
+import {
+  applyHookDefaults,
+  ConfigError,
+  getHookConfig,
+  type HookCommand,
+  loadConfig,
+  parseTimeout,
+  planCommandWaves,
+  validateConfig,
+} from "./config.ts";
 
 Deno.test("loadConfig - parses YAML configuration", async () => {
   // Use parent directory where deno-hooks.yml is located
@@ -21,9 +30,244 @@ Deno.test("loadConfig - validates commands are strings", async () => {
 
   for (const commands of Object.values(config.hooks)) {
     expect(Array.isArray(commands)).toBe(true);
-    for (const command of commands) {
+    for (const command of commands as HookCommand[]) {
       expect(typeof command).toBe("string");
-      expect(command.trim().length).toBeGreaterThan(0);
+      expect((command as string).trim().length).toBeGreaterThan(0);
     }
   }
 });
+
+Deno.test("loadConfig - accepts hook objects with stash for pre-commit", async () => {
+  const rootDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    stash: true\n    commands:\n      - deno task fmt\n",
+    );
+    const config = await loadConfig(rootDir);
+    expect(getHookConfig(config, "pre-commit")).toEqual({
+      stash: true,
+      commands: ["deno task fmt"],
+    });
+
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      "hooks:\n  pre-push:\n    stash: true\n    commands:\n      - deno task test\n",
+    );
+    await expect(loadConfig(rootDir)).rejects.toThrow(
+      "hooks.pre-push.stash is only supported for pre-commit",
+    );
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
+
+Deno.test("planCommandWaves - orders commands after their needs", () => {
+  expect(planCommandWaves([
+    { run: "deno task test", id: "test", needs: "build" },
+    { run: "deno task build", id: "build", needs: "gen" },
+    { run: "deno task lint" },
+    { run: "deno task gen", id: "gen" },
+  ])).toEqual([[2, 3], [1], [0]]);
+
+  expect(() =>
+    planCommandWaves([
+      { run: "a", id: "a", needs: "b" },
+      { run: "b", id: "b", needs: "a" },
+    ], "pre-push")
+  ).toThrow("Dependency cycle in hooks.pre-push: a -> b -> a");
+});
+
+Deno.test("loadConfig - rejects needs on unknown command ids", async () => {
+  const rootDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      "hooks:\n  pre-push:\n    parallel: true\n    commands:\n      - run: deno task test\n        needs: build\n",
+    );
+    await expect(loadConfig(rootDir)).rejects.toThrow(
+      `hooks.pre-push "deno task test" needs unknown command id "build"`,
+    );
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
+
+Deno.test("loadConfig - validates stdin against the hook", async () => {
+  const rootDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      "hooks:\n  pre-push:\n    - run: cat\n      stdin: true\n",
+    );
+    await loadConfig(rootDir);
+
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      "hooks:\n  commit-msg:\n    - run: cat\n      stdin: true\n",
+    );
+    await expect(loadConfig(rootDir)).rejects.toThrow(
+      "git writes nothing to commit-msg's stdin",
+    );
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
+
+Deno.test("loadConfig - validates the commit_msg section", async () => {
+  const rootDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      'commit_msg:\n  ticket_pattern: "(ABC-[0-9]+"\nhooks:\n  pre-commit: ["deno lint"]\n',
+    );
+    await expect(loadConfig(rootDir)).rejects.toThrow(
+      "commit_msg.ticket_pattern is invalid",
+    );
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
+
+Deno.test("loadConfig - reports every problem with its location", async () => {
+  const rootDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${rootDir}/deno-hooks.yml`,
+      `hooks:
+  pre-commit:
+    - ""
+    - run: deno fmt
+      pass_filenames: "yes"
+  pre-push:
+    stash: true
+    commands: [deno task test]
+`,
+    );
+    const error = await loadConfig(rootDir).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(
+      (error as ConfigError).issues.map(({ location }) => location),
+    ).toEqual([
+      { line: 3, column: 5 },
+      { line: 5, column: 7 },
+      { line: 7, column: 5 },
+    ]);
+    expect(error.message).toContain(
+      `${rootDir}/deno-hooks.yml:7:5: hooks.pre-push.stash is only supported for pre-commit`,
+    );
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
+
+Deno.test("validateConfig - rejects unknown hook names unless custom", () => {
+  const config = { hooks: { "pre-comit": ["deno lint"], "lint-all": ["x"] } };
+
+  expect(
+    validateConfig(config).map(({ message, severity }) => [
+      severity,
+      message,
+    ]),
+  ).toEqual([
+    [
+      "error",
+      'Unknown git hook "pre-comit" (did you mean "pre-commit"?): git never runs it. List it in custom_hooks if this is intended',
+    ],
+    [
+      "error",
+      'Unknown git hook "lint-all": git never runs it. List it in custom_hooks if this is intended',
+    ],
+  ]);
+  expect(
+    validateConfig(config, { unknownHooks: "warn" }).map((i) => i.severity),
+  ).toEqual(["warning", "warning"]);
+  expect(validateConfig({ ...config, custom_hooks: ["lint-all"] }).length)
+    .toBe(1);
+});
+
+Deno.test("applyHookDefaults - merges hook cwd, env and timeout", () => {
+  const hook = {
+    commands: [],
+    cwd: "packages/api",
+    env: { CI: true, LEVEL: "info" },
+    timeout: "5m",
+  };
+
+  expect(applyHookDefaults(hook, "deno test")).toEqual({
+    run: "deno test",
+    cwd: "packages/api",
+    env: { CI: true, LEVEL: "info" },
+    timeout: "5m",
+  });
+  expect(
+    applyHookDefaults(hook, {
+      run: "deno lint",
+      cwd: "packages/web",
+      env: { LEVEL: "debug" },
+      timeout: 30,
+    }),
+  ).toEqual({
+    run: "deno lint",
+    cwd: "packages/web",
+    env: { CI: true, LEVEL: "debug" },
+    timeout: 30,
+  });
+  expect(parseTimeout("1.5m")).toBe(90);
+  expect(parseTimeout("10")).toBeUndefined();
+  expect(parseTimeout(0)).toBeUndefined();
+});
+
+Deno.test("validateConfig - checks cwd, env and timeout", () => {
+  const config = {
+    hooks: {
+      "pre-commit": {
+        cwd: "/abs",
+        commands: [{ run: "x", env: { "BAD-NAME": "1" }, timeout: "soon" }],
+      },
+    },
+  };
+
+  expect(validateConfig(config).map((issue) => issue.path)).toEqual([
+    ["hooks", "pre-commit", "cwd"],
+    ["hooks", "pre-commit", "commands", 0, "env", "BAD-NAME"],
+    ["hooks", "pre-commit", "commands", 0, "timeout"],
+  ]);
+});
+
+Deno.test("loadConfig - prefers deno-hooks.config.ts and type-checks it", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "hooks:\n  pre-commit:\n    - deno lint\n",
+    );
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.config.ts`,
+      'export default async () => ({ hooks: { "pre-commit": [`echo ${1 + 1}`] } });\n',
+    );
+
+    expect((await loadConfig(root)).hooks).toEqual({
+      "pre-commit": ["echo 2"],
+    });
+
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.config.ts`,
+      'const count: number = "two";\nexport default { hooks: { "pre-commit": [`echo ${count}`] } };\n',
+    );
+    await expect(loadConfig(root, { typeCheck: true })).rejects.toThrow(
+      "Type errors in",
+    );
+
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.config.ts`,
+      'export default { hooks: { "pre-commit": [{ run: "x", file: "*.ts" }] } };\n',
+    );
+    await expect(loadConfig(root)).rejects.toThrow(
+      `${root}/deno-hooks.config.ts: Unknown key "file"`,
+    );
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -0,0 +1,55 @@
+/**
+ * Shared helpers for deno-hooks tests
+ */
+
+// Keep the developer's git configuration (a global core.hooksPath, or one
+// injected with GIT_CONFIG_COUNT) away from test repositories, both for the
+// git commands run here and for those run by the code under test
+Deno.env.set("GIT_CONFIG_GLOBAL", "/dev/null");
+Deno.env.set("GIT_CONFIG_NOSYSTEM", "1");
+Deno.env.delete("GIT_CONFIG_COUNT");
+
+/**
+ * Run `fn` inside a fresh git repository, restoring the cwd afterwards
+ *
+ * @param fn - Receives the real path of the repository root
+ */
+export async function withTempRepo(
+  fn: (root: string) => Promise<void>,
+): Promise<void> {
+  const originalCwd = Deno.cwd();
+  const root = await Deno.makeTempDir({ prefix: "deno-hooks-test-" });
+  try {
+    await new Deno.Command("git", { args: ["init", "-q"], cwd: root })
+      .output();
+    Deno.chdir(root);
+    await fn(await Deno.realPath(root));
+  } finally {
+    Deno.chdir(originalCwd);
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+/**
+ * Identity for commits and stashes made in test repositories
+ */
+export const GIT_TEST_ENV: Record<string, string> = {
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+/**
+ * Run a git command in `cwd`, throwing with its stderr on failure
+ */
+export async function git(args: string[], cwd: string): Promise<void> {
+  const { success, stderr } = await new Deno.Command("git", {
+    args,
+    cwd,
+    env: GIT_TEST_ENV,
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+  if (!success) throw new Error(new TextDecoder().decode(stderr));
+}
@@ -0,0 +1,42 @@
+/**
+ * Tests for uninstall
+ */
+
+import { expect } from "@std/expect";
+import { exists } from "@std/fs";
+import { silentLogger } from "./logger.ts";
+import { withTempRepo } from "./test-utils.ts";
+import { uninstall } from "./uninstall.ts";
+
+Deno.test("uninstall - removes generated hooks and restores backups", async () => {
+  await withTempRepo(async (root) => {
+    const hooksDir = `${root}/.git/hooks`;
+    await Deno.writeTextFile(
+      `${hooksDir}/pre-commit`,
+      "#!/bin/sh\n# Generated by deno-hooks - DO NOT EDIT\n",
+    );
+    await Deno.writeTextFile(
+      `${hooksDir}/pre-push.deno-hooks.bak`,
+      "#!/bin/sh\necho custom\n",
+    );
+    await Deno.writeTextFile(
+      `${hooksDir}/pre-push`,
+      "#!/bin/sh\n# Generated by deno-hooks - DO NOT EDIT\n",
+    );
+    await Deno.writeTextFile(
+      `${hooksDir}/post-checkout`,
+      "#!/bin/sh\ngit lfs post-checkout\n",
+    );
+
+    const result = await uninstall({ logger: silentLogger });
+
+    expect(result.removed).toEqual(["pre-commit", "pre-push"]);
+    expect(result.restored).toEqual(["pre-push"]);
+    expect(result.skipped).toContain("post-checkout");
+    expect(await exists(`${hooksDir}/pre-commit`)).toBe(false);
+    expect(await Deno.readTextFile(`${hooksDir}/pre-push`)).toContain(
+      "echo custom",
+    );
+    expect(await exists(`${hooksDir}/post-checkout`)).toBe(true);
+  });
+});
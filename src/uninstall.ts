@@ -0,0 +1,134 @@
+/**
+ * Git hooks removal
+ *
+ * Removes the hook scripts generated by deno-hooks and restores any hook
+ * that was moved aside when deno-hooks was installed.
+ *
+ * @example CLI usage
+ * ```bash
+ * deno run -A jsr:@theswanfactory/deno-hooks uninstall
+ * ```
+ *
+ * @example Programmatic usage
+ * ```ts
+ * import { uninstall } from "@theswanfactory/deno-hooks";
+ * const result = await uninstall();
+ * console.log(result.removed);
+ * ```
+ *
+ * @module
+ */
+
+import { exists } from "@std/fs";
+import { getGitRoot, getHooksDir } from "./git.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import { BACKUP_SUFFIX, isGeneratedHook, listHookFiles } from "./script.ts";
+
+/**
+ * Options for uninstalling hooks
+ */
+export interface UninstallOptions {
+  /** Show detailed output during removal */
+  verbose?: boolean;
+  /** Where progress and warnings go (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * Summary of what {@linkcode uninstall} changed
+ */
+export interface UninstallResult {
+  /** Hooks directory that was cleaned up */
+  hooksDir: string;
+  /** Names of generated hooks that were deleted */
+  removed: string[];
+  /** Names of hooks restored from a deno-hooks backup */
+  restored: string[];
+  /** Names of hooks left alone because deno-hooks did not generate them */
+  skipped: string[];
+}
+
+/**
+ * Remove git hooks installed by deno-hooks
+ *
+ * This function:
+ * 1. Scans the hooks directory for scripts carrying the deno-hooks header
+ * 2. Deletes those scripts, leaving every other hook untouched
+ * 3. Restores `<hook>.deno-hooks.bak` backups made during installation
+ *
+ * @param options - Uninstall options
+ * @returns Lists of removed, restored and skipped hooks
+ * @throws {Error} If not in a git repository
+ *
+ * @example
+ * ```ts
+ * import { uninstall } from "@theswanfactory/deno-hooks";
+ *
+ * const { removed, restored } = await uninstall();
+ * console.log(`Removed ${removed.length}, restored ${restored.length}`);
+ * ```
+ */
+export async function uninstall(
+  options: UninstallOptions = {},
+): Promise<UninstallResult> {
+  const { verbose = false, logger = consoleLogger } = options;
+  const log = (message: string) => logger.info(message);
+
+  log("Uninstalling Deno Hooks...\n");
+
+  const gitRoot = await getGitRoot();
+  const { path: hooksDir, reason } = await getHooksDir(gitRoot);
+  if (verbose) {
+    log(`Hooks directory: ${hooksDir}`);
+    log(`  Chosen because: ${reason}`);
+  }
+
+  const result: UninstallResult = {
+    hooksDir,
+    removed: [],
+    restored: [],
+    skipped: [],
+  };
+
+  const entries = await listHookFiles(hooksDir);
+
+  for (const name of entries.hooks) {
+    const hookPath = `${hooksDir}/${name}`;
+    if (!(await isGeneratedHook(hookPath))) {
+      if (verbose) {
+        log(`  Skipping ${name} (not generated by deno-hooks)`);
+      }
+      result.skipped.push(name);
+      continue;
+    }
+
+    await Deno.remove(hookPath);
+    result.removed.push(name);
+    log(`  Removed ${name}`);
+  }
+
+  for (const name of entries.backups) {
+    const hookPath = `${hooksDir}/${name}`;
+    const backupPath = `${hookPath}${BACKUP_SUFFIX}`;
+
+    if (await exists(hookPath)) {
+      // Something else took the hook's place; never clobber it
+      logger.warn(
+        `  ⚠ Kept backup ${name}${BACKUP_SUFFIX} (${name} already exists)`,
+      );
+      continue;
+    }
+
+    await Deno.rename(backupPath, hookPath);
+    result.restored.push(name);
+    log(`  Restored ${name} from backup`);
+  }
+
+  if (result.removed.length === 0 && result.restored.length === 0) {
+    log("No deno-hooks scripts found, nothing to do.");
+  } else {
+    log("\nUninstall complete!");
+  }
+
+  return result;
+}
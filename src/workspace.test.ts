@@ -0,0 +1,130 @@
+/**
+ * Tests for monorepo package discovery and merging
+ */
+
+import { expect } from "@std/expect";
+import { ConfigError, loadConfig, scopeToPackage } from "./config.ts";
+import { findPackageDirs, readWorkspaceMembers } from "./workspace.ts";
+
+Deno.test("findPackageDirs - expands * and skips hidden directories", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    for (const dir of ["packages/api", "packages/web", "packages/.cache"]) {
+      await Deno.mkdir(`${root}/${dir}`, { recursive: true });
+    }
+    await Deno.writeTextFile(`${root}/packages/notes.txt`, "");
+
+    expect(
+      await findPackageDirs(root, ["./packages/*", "packages/api/", "tools"]),
+    ).toEqual(["packages/api", "packages/web"]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("scopeToPackage - runs commands in the package for its changes", () => {
+  expect(
+    scopeToPackage("pre-commit", "packages/api", {
+      run: "deno lint",
+      id: "lint",
+      needs: "build",
+    }),
+  ).toEqual({
+    run: "deno lint",
+    id: "packages/api/lint",
+    needs: ["packages/api/build"],
+    cwd: "packages/api",
+    files: "packages/api/**",
+  });
+  expect(
+    scopeToPackage("pre-commit", "packages/api", {
+      run: "deno fmt",
+      cwd: "./src",
+      files: ["*.ts", "./src/*.md"],
+      exclude: "gen/**",
+    }),
+  ).toMatchObject({
+    cwd: "packages/api/src",
+    files: ["packages/api/**/*.ts", "packages/api/src/*.md"],
+    exclude: ["packages/api/gen/**"],
+  });
+  expect(scopeToPackage("post-merge", "packages/api", { run: "x" }))
+    .toEqual({ run: "x", cwd: "packages/api" });
+});
+
+Deno.test("readWorkspaceMembers - reads deno.json or deno.jsonc", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${root}/deno.jsonc`,
+      `{
+  // Members in the object form
+  "workspace": { "members": ["./packages/api", 1] },
+}
+`,
+    );
+    expect(await readWorkspaceMembers(root)).toEqual(["./packages/api"]);
+
+    // deno.json wins, and a document that is not an object has no members
+    await Deno.writeTextFile(`${root}/deno.json`, "null");
+    expect(await readWorkspaceMembers(root)).toBeUndefined();
+
+    await Deno.writeTextFile(`${root}/deno.json`, "{ workspace: [");
+    await expect(readWorkspaceMembers(root)).rejects.toThrow(
+      "Failed to parse deno.json",
+    );
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("loadConfig - merges package configs of a deno workspace", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${root}/packages/api`, { recursive: true });
+    await Deno.mkdir(`${root}/packages/web`, { recursive: true });
+    await Deno.writeTextFile(
+      `${root}/deno.json`,
+      JSON.stringify({ workspace: ["./packages/*"] }),
+    );
+    await Deno.writeTextFile(
+      `${root}/packages/api/deno.json`,
+      JSON.stringify({
+        "deno-hooks": {
+          hooks: { "pre-commit": { parallel: true, commands: ["deno test"] } },
+        },
+      }),
+    );
+    // Packages without a configuration are ignored
+    await Deno.writeTextFile(`${root}/packages/web/deno.json`, "{}");
+
+    const config = await loadConfig(root);
+
+    expect(config.hooks).toEqual({
+      "pre-commit": {
+        commands: [{
+          run: "deno test",
+          cwd: "packages/api",
+          files: "packages/api/**",
+        }],
+        parallel: true,
+      },
+    });
+
+    await Deno.writeTextFile(
+      `${root}/deno-hooks.yml`,
+      "packages: [packages/web]\nhooks:\n  pre-commit:\n    - deno lint\n",
+    );
+    await Deno.writeTextFile(
+      `${root}/packages/web/deno-hooks.yml`,
+      "commit_msg: {}\nhooks: {}\n",
+    );
+    const error = await loadConfig(root).catch((e) => e);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.message).toContain(
+      "packages/web/deno-hooks.yml:1:1: commit_msg is only allowed in the root configuration",
+    );
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -0,0 +1,134 @@
+/**
+ * Package discovery for monorepos
+ *
+ * Packages are listed with `packages` in the root configuration or, if
+ * that is not set, taken from the `workspace` members of the root
+ * `deno.json` or `deno.jsonc`. Members may use `*` in a path segment (e.g., `packages/*`).
+ * Each package that has its own deno-hooks configuration contributes its
+ * commands, which {@linkcode loadConfig} scopes to the package.
+ *
+ * @example
+ * ```json
+ * {
+ *   "workspace": ["./packages/*"]
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { parse as parseJsonc } from "@std/jsonc";
+import { asRecord, findFile } from "./documents.ts";
+import { globsToRegExpSource } from "./files.ts";
+
+/**
+ * Read the workspace members of the root `deno.json`, or `deno.jsonc` if
+ * there is no `deno.json`
+ *
+ * @param rootDir - The git repository root directory
+ * @returns Member paths, or undefined if there is no workspace
+ * @throws {Error} If the file cannot be parsed
+ */
+export async function readWorkspaceMembers(
+  rootDir: string,
+): Promise<string[] | undefined> {
+  const file = await findFile(rootDir, ["deno.json", "deno.jsonc"]);
+  if (file === undefined) return undefined;
+
+  let document: unknown;
+  try {
+    // deno.json may contain comments, like deno.jsonc
+    document = parseJsonc(await Deno.readTextFile(`${rootDir}/${file}`));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse ${file}: ${message}`);
+  }
+  const workspace = asRecord(document)?.workspace;
+  const isString = (member: unknown): member is string =>
+    typeof member === "string";
+  if (Array.isArray(workspace)) return workspace.filter(isString);
+  // Deno also accepts { "members": [...] }
+  const members = asRecord(workspace)?.members;
+  if (Array.isArray(members)) return members.filter(isString);
+  return undefined;
+}
+
+/**
+ * Normalize a package path to `dir/sub` form, relative to the root
+ *
+ * @param path - A path like `./packages/api/`
+ * @returns The path without `./` and trailing slashes (`""` for the root)
+ */
+export function normalizePackageDir(path: string): string {
+  return path.split("/").filter((part) => part !== "" && part !== ".")
+    .join("/");
+}
+
+/**
+ * Expand package paths into the directories that exist
+ *
+ * A `*` in a path segment matches any directory name at that level.
+ *
+ * @param rootDir - The git repository root directory
+ * @param patterns - Package paths relative to the root, e.g. `packages/*`
+ * @returns Matching directories relative to the root, sorted and without
+ *   duplicates; the root itself is left out
+ */
+export async function findPackageDirs(
+  rootDir: string,
+  patterns: string[],
+): Promise<string[]> {
+  const found = new Set<string>();
+  for (const pattern of patterns) {
+    let dirs = [""];
+    for (const segment of normalizePackageDir(pattern).split("/")) {
+      if (segment === "") continue;
+      const next: string[] = [];
+      for (const dir of dirs) {
+        next.push(...await matchSegment(rootDir, dir, segment));
+      }
+      dirs = next;
+    }
+    for (const dir of dirs) {
+      if (dir !== "") found.add(dir);
+    }
+  }
+  return [...found].sort();
+}
+
+/**
+ * Directories in `dir` matching one path segment
+ */
+async function matchSegment(
+  rootDir: string,
+  dir: string,
+  segment: string,
+): Promise<string[]> {
+  const join = (name: string) => dir === "" ? name : `${dir}/${name}`;
+  if (!segment.includes("*")) {
+    try {
+      const info = await Deno.stat(`${rootDir}/${join(segment)}`);
+      return info.isDirectory ? [join(segment)] : [];
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  }
+
+  const pattern = new RegExp(globsToRegExpSource(segment));
+  const matches: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(`${rootDir}/${dir}`)) {
+      // Like shells, `*` does not match hidden directories
+      if (
+        entry.isDirectory && pattern.test(entry.name) &&
+        (!entry.name.startsWith(".") || segment.startsWith("."))
+      ) {
+        matches.push(join(entry.name));
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return matches.sort();
+}
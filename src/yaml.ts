@@ -0,0 +1,50 @@
+/**
+ * Write configuration values as YAML that reads like a hand-written file
+ *
+ * Used where deno-hooks generates or edits deno-hooks.yml, so the result
+ * keeps the layout of the examples in the README rather than that of a
+ * generic serializer.
+ *
+ * @module
+ */
+
+import type { HookCommand } from "./config.ts";
+
+/**
+ * Format a value as YAML: strings plain when unambiguous, anything else as
+ * JSON (which is valid YAML)
+ *
+ * @param value - A string, number, boolean, list or mapping
+ * @returns The value on one line
+ */
+export function formatYamlValue(value: unknown): string {
+  if (
+    typeof value === "string" &&
+    /^[A-Za-z_./$][^:#"'{}[\],&*!|>%@`]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null)$/i.test(value)
+  ) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Format a command as a YAML block sequence item
+ *
+ * @param command - A plain command string or a command object
+ * @param column - Column of the item's dash
+ * @returns The item's lines
+ */
+export function formatYamlCommand(
+  command: HookCommand,
+  column: number,
+): string[] {
+  const indent = " ".repeat(column);
+  if (typeof command === "string") {
+    return [`${indent}- ${formatYamlValue(command)}`];
+  }
+  return Object.entries(command).map(([key, value], index) =>
+    `${indent}${index === 0 ? "- " : "  "}${key}: ${formatYamlValue(value)}`
+  );
+}